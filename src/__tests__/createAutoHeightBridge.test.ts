@@ -0,0 +1,701 @@
+import { JSDOM, type DOMWindow } from 'jsdom';
+
+import {
+  AUTO_HEIGHT_BRIDGE,
+  DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS,
+  createAutoHeightBridge,
+} from '../constants/autoHeightBridge';
+import {
+  createBridgeCommandScript,
+  type BridgeCommand,
+  type BridgeCommandArgument,
+} from '../utils/createBridgeCommandScript';
+import {
+  createBridgeConfigScript,
+  type BridgeConfig,
+} from '../utils/createBridgeConfigScript';
+import {
+  parseBridgeMessage,
+  type BridgeMessage,
+} from '../utils/parseBridgeMessage';
+
+const WRAPPER_ID = '__RN_SIZED_WEBVIEW_WRAPPER__';
+
+type BridgeWindow = DOMWindow & {
+  ReactNativeWebView?: { postMessage: (data: string) => void };
+  __RN_SIZED_WEBVIEW__?: { refresh: () => void };
+};
+
+const readConstant = (script: string, name: string) =>
+  new RegExp(`var ${name} = ([^;]+);`).exec(script)?.[1];
+
+const openWindows: DOMWindow[] = [];
+
+/**
+ * Loads `body` in a jsdom page running the bridge and collects its messages.
+ * jsdom has no layout engine, so tests place elements with `setRect`;
+ * `prepare` fills in other missing APIs before the bridge starts.
+ */
+const loadBridge = async (
+  body: string,
+  config: Omit<BridgeConfig, 'instanceId'> = {},
+  prepare?: (window: DOMWindow) => void
+) => {
+  const { window } = new JSDOM(
+    `<!DOCTYPE html><html><head></head><body>${body}</body></html>`,
+    { runScripts: 'outside-only' }
+  );
+  const bridgeWindow = window as BridgeWindow;
+  const messages: BridgeMessage[] = [];
+
+  openWindows.push(window);
+  bridgeWindow.ReactNativeWebView = {
+    postMessage: (data) => {
+      const message = parseBridgeMessage(data);
+
+      if (message) {
+        messages.push(message);
+      }
+    },
+  };
+  prepare?.(window);
+  window.eval(
+    createBridgeConfigScript({ instanceId: 'test', ...config }) +
+      createAutoHeightBridge()
+  );
+
+  await new Promise((resolve) => window.addEventListener('load', resolve));
+
+  // Forces a measurement and returns the height report it produced, if any.
+  const measure = () => {
+    const count = messages.length;
+
+    bridgeWindow.__RN_SIZED_WEBVIEW__?.refresh();
+
+    return messages.slice(count).find((message) => message.type === 'height')
+      ?.payload;
+  };
+
+  return { window, document: window.document, messages, measure };
+};
+
+const setRect = (
+  element: Element,
+  {
+    top = 0,
+    height,
+    width = 100,
+  }: { top?: number; height: number; width?: number }
+) => {
+  element.getBoundingClientRect = () =>
+    ({
+      x: 0,
+      y: top,
+      top,
+      left: 0,
+      right: width,
+      bottom: top + height,
+      width,
+      height,
+    }) as DOMRect;
+};
+
+/**
+ * Runs a bridge command the way SizedWebView injects it.
+ */
+const runCommand = (
+  window: DOMWindow,
+  command: BridgeCommand,
+  ...args: BridgeCommandArgument[]
+) => window.eval(createBridgeCommandScript(command, ...args));
+
+const wait = (ms: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+// jsdom only marks the events it fires itself as trusted, so user input goes
+// through its internal event helper.
+const { fireAnEvent } = jest.requireActual<{
+  fireAnEvent: (
+    type: string,
+    target: unknown,
+    eventInterface: unknown,
+    init: MouseEventInit
+  ) => boolean;
+}>('jsdom/lib/jsdom/living/helpers/events');
+const { implForWrapper } = jest.requireActual<{
+  implForWrapper: (wrapper: unknown) => unknown;
+}>('jsdom/lib/jsdom/living/generated/utils');
+const jsdomMouseEvent = jest.requireActual<object>(
+  'jsdom/lib/jsdom/living/generated/MouseEvent'
+);
+
+/**
+ * Clicks `element` as the user would, with a trusted event.
+ */
+const userClick = (element: Element) =>
+  fireAnEvent('click', implForWrapper(element), jsdomMouseEvent, {
+    bubbles: true,
+    cancelable: true,
+  });
+
+afterEach(() => {
+  openWindows.splice(0).forEach((window) => window.close());
+});
+
+describe('createAutoHeightBridge', () => {
+  it('generates the default bridge without options', () => {
+    expect(createAutoHeightBridge()).toBe(AUTO_HEIGHT_BRIDGE);
+    expect(createAutoHeightBridge({})).toBe(AUTO_HEIGHT_BRIDGE);
+    expect(readConstant(AUTO_HEIGHT_BRIDGE, 'STABILIZATION_DELAYS_MS')).toBe(
+      JSON.stringify(DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS.stabilizationDelays)
+    );
+  });
+
+  it('bakes the provided tunables into a valid script', () => {
+    const script = createAutoHeightBridge({
+      activeDebounce: 16,
+      idleDebounce: 400,
+      initialFallbackDelay: 1000,
+      maxFallbackDelay: 8000,
+      maxReasonableHeight: 50000,
+      stabilizationDelays: [50, 500],
+    });
+
+    expect(readConstant(script, 'ACTIVE_DEBOUNCE_MS')).toBe('16');
+    expect(readConstant(script, 'IDLE_DEBOUNCE_MS')).toBe('400');
+    expect(readConstant(script, 'INITIAL_FALLBACK_MS')).toBe('1000');
+    expect(readConstant(script, 'MAX_FALLBACK_MS')).toBe('8000');
+    expect(readConstant(script, 'MAX_REASONABLE_HEIGHT')).toBe('50000');
+    expect(readConstant(script, 'STABILIZATION_DELAYS_MS')).toBe('[50,500]');
+    // eslint-disable-next-line no-new-func
+    expect(() => new Function(script)).not.toThrow();
+  });
+
+  it('falls back to defaults for invalid values and keeps bounds consistent', () => {
+    const script = createAutoHeightBridge({
+      activeDebounce: -1,
+      idleDebounce: Number.NaN,
+      initialFallbackDelay: 0,
+      maxFallbackDelay: 0,
+      maxReasonableHeight: Number.POSITIVE_INFINITY,
+      stabilizationDelays: [100, -5, Number.NaN],
+    });
+
+    expect(readConstant(script, 'ACTIVE_DEBOUNCE_MS')).toBe('48');
+    expect(readConstant(script, 'IDLE_DEBOUNCE_MS')).toBe('160');
+    expect(readConstant(script, 'INITIAL_FALLBACK_MS')).toBe('1');
+    expect(readConstant(script, 'MAX_FALLBACK_MS')).toBe('1');
+    expect(readConstant(script, 'MAX_REASONABLE_HEIGHT')).toBe('120000');
+    expect(readConstant(script, 'STABILIZATION_DELAYS_MS')).toBe('[100]');
+  });
+
+  describe('in a page', () => {
+    it('measures the document in place without a wrapper', async () => {
+      const { document, measure } = await loadBridge('<p id="intro">Hi</p>', {
+        measurementStrategy: 'document',
+      });
+
+      setRect(document.body, { height: 120 });
+
+      expect(document.getElementById('intro')?.parentElement).toBe(
+        document.body
+      );
+      expect(document.getElementById(WRAPPER_ID)).toBeNull();
+      expect(measure()).toMatchObject({ height: 120, details: { body: 120 } });
+    });
+
+    it('collapses trailing nodes instead of removing them', async () => {
+      const { document, measure } = await loadBridge(
+        '<p>Text</p><p id="empty"></p><br>',
+        { trailingNodes: { mode: 'collapse' } }
+      );
+      const empty = document.getElementById('empty')!;
+      const isCollapsed = (element: Element) =>
+        element.hasAttribute('data-rn-sized-webview-collapsed');
+
+      expect(document.querySelectorAll('p, br')).toHaveLength(3);
+      expect(isCollapsed(empty)).toBe(true);
+      expect(isCollapsed(document.querySelector('br')!)).toBe(true);
+      expect(
+        document.getElementById('__RN_SIZED_WEBVIEW_COLLAPSE_STYLE__')
+      ).not.toBeNull();
+
+      empty.textContent = 'Typed';
+      measure();
+
+      expect(isCollapsed(empty)).toBe(false);
+      expect(isCollapsed(document.querySelector('br')!)).toBe(true);
+    });
+
+    it('measures the target element and re-observes it when replaced', async () => {
+      const { window, document, measure } = await loadBridge(
+        '<div id="article">A</div><div id="menu"></div>',
+        { measureTarget: '#article' }
+      );
+      const observed: Element[] = [];
+      const unobserved: Element[] = [];
+
+      Object.assign(window, {
+        ResizeObserver: class {
+          observe(element: Element) {
+            observed.push(element);
+          }
+          unobserve(element: Element) {
+            unobserved.push(element);
+          }
+          disconnect() {}
+        },
+      });
+
+      const replaceArticle = (height: number) => {
+        const article = document.createElement('div');
+        article.id = 'article';
+        setRect(article, { top: 10, height });
+        document.getElementById('article')!.replaceWith(article);
+        return article;
+      };
+
+      setRect(document.getElementById(WRAPPER_ID)!, { height: 2000 });
+      const first = replaceArticle(200);
+
+      expect(measure()).toMatchObject({
+        height: 210,
+        details: { target: 210 },
+      });
+
+      const second = replaceArticle(300);
+
+      expect(measure()).toMatchObject({ height: 310 });
+      expect(observed).toEqual([first, second]);
+      expect(unobserved).toEqual([first]);
+    });
+
+    it('reaches positioned descendants with deep measurement', async () => {
+      const { document, measure } = await loadBridge(
+        [
+          '<div id="card" style="overflow: hidden">',
+          '<div id="menu" style="position: absolute"></div>',
+          '</div>',
+          '<div id="tooltip" style="position: absolute"></div>',
+          '<div id="closed" style="display: none"></div>',
+        ].join(''),
+        { deepMeasurement: true }
+      );
+      const place = (id: string, top: number, height: number) =>
+        setRect(document.getElementById(id)!, { top, height });
+
+      place(WRAPPER_ID, 0, 100);
+      place('card', 0, 100);
+      place('menu', 50, 400);
+      place('tooltip', 80, 220);
+      place('closed', 0, 900);
+
+      expect(measure()).toMatchObject({
+        height: 300,
+        details: { descendants: 300 },
+      });
+    });
+
+    it('includes bare text with deep measurement', async () => {
+      const { window, document, measure } = await loadBridge(
+        '<p id="lead">Lead</p> \nTrailing text',
+        { deepMeasurement: true }
+      );
+
+      setRect(document.getElementById(WRAPPER_ID)!, { height: 40 });
+      setRect(document.getElementById('lead')!, { height: 40 });
+      window.Range.prototype.getBoundingClientRect = function (this: Range) {
+        const isTrailing = this.toString().trim() === 'Trailing text';
+
+        return {
+          top: isTrailing ? 40 : 0,
+          bottom: isTrailing ? 60 : 0,
+          width: isTrailing ? 80 : 0,
+          height: isTrailing ? 20 : 0,
+        } as DOMRect;
+      };
+
+      expect(measure()).toMatchObject({
+        height: 60,
+        details: { descendants: 60 },
+      });
+    });
+
+    it('reports ready once media has loaded and the height has settled', async () => {
+      const { window, document, messages, measure } = await loadBridge(
+        '<video id="clip"></video><p>Text</p>',
+        { measurementStrategy: 'document', readyQuietWindow: 20 }
+      );
+      const readyHeights = () =>
+        messages
+          .filter((message) => message.type === 'ready')
+          .map((message) => message.payload.height);
+
+      setRect(document.body, { height: 200 });
+      measure();
+      await wait(60);
+
+      expect(readyHeights()).toEqual([]);
+
+      document
+        .getElementById('clip')!
+        .dispatchEvent(new window.Event('loadeddata'));
+
+      expect(readyHeights()).toEqual([]);
+
+      await wait(60);
+
+      expect(readyHeights()).toEqual([200]);
+
+      setRect(document.body, { height: 260 });
+      measure();
+      await wait(60);
+
+      expect(readyHeights()).toEqual([200, 260]);
+    });
+
+    it('tags each height report with its trigger and readings', async () => {
+      const { window, document, messages, measure } =
+        await loadBridge('<p>Hi</p>');
+      const wrapper = document.getElementById(WRAPPER_ID)!;
+      const reports = () =>
+        messages
+          .filter((message) => message.type === 'height')
+          .map(({ payload }) => [
+            payload.height,
+            payload.reason,
+            payload.details,
+          ]);
+
+      setRect(wrapper, { height: 100 });
+      window.dispatchEvent(new window.Event('resize'));
+      setRect(wrapper, { height: 150 });
+      measure();
+      setRect(wrapper, { height: 180 });
+      wrapper.append(
+        Object.assign(document.createElement('p'), { textContent: 'More' })
+      );
+      await wait(40);
+
+      const readings = (height: number) => ({
+        wrapper: height,
+        body: 0,
+        html: 0,
+      });
+
+      expect(reports()).toEqual([
+        [100, 'viewport', readings(100)],
+        [150, 'refresh', readings(150)],
+        [180, 'mutation', readings(180)],
+      ]);
+    });
+
+    it('applies base styles through a zero-specificity stylesheet', async () => {
+      const { document } = await loadBridge('<p>Hi</p>', {
+        baseStyles: { preset: 'minimal', body: { 'background-color': 'navy' } },
+      });
+      const baseStyle = document.head.firstElementChild;
+
+      expect(baseStyle?.id).toBe('__RN_SIZED_WEBVIEW_BASE_STYLE__');
+      expect(baseStyle?.textContent).toBe(
+        [
+          ':where(html) { height: auto; }',
+          ':where(body) { height: auto; }',
+          ':where(body) { background-color: navy; }',
+          ':where(html[data-rn-sized-webview-scrollable]) { overflow: auto; }',
+        ].join(' ')
+      );
+      expect(document.documentElement.getAttribute('style')).toBeNull();
+      expect(document.body.getAttribute('style')).toBeNull();
+    });
+
+    it('reports anchor targets for the parent to scroll to', async () => {
+      const scrollIntoView = jest.fn();
+      const { window, document, messages } = await loadBridge(
+        '<a id="jump" href="#section-3">Jump</a><h2 id="section-3">Three</h2>',
+        { anchorNavigation: true },
+        (page) => {
+          page.Element.prototype.scrollIntoView = scrollIntoView;
+        }
+      );
+      const section = document.getElementById('section-3')!;
+      const anchors = () =>
+        messages
+          .filter((message) => message.type === 'anchor')
+          .map((message) => message.payload);
+
+      setRect(section, { top: 640, height: 30 });
+
+      expect(userClick(document.getElementById('jump')!)).toBe(false);
+      expect(window.location.hash).toBe('');
+
+      section.scrollIntoView();
+      window.location.hash = '#section-3';
+      await wait(10);
+
+      expect(anchors()).toEqual([
+        { offsetY: 640, hash: '#section-3' },
+        { offsetY: 640, hash: null },
+        { offsetY: 640, hash: '#section-3' },
+      ]);
+      expect(scrollIntoView).not.toHaveBeenCalled();
+    });
+
+    it('leaves anchors to the page once it scrolls itself', async () => {
+      const scrollIntoView = jest.fn();
+      const { document, messages, measure } = await loadBridge(
+        '<a id="jump" href="#section-3">Jump</a><h2 id="section-3">Three</h2>',
+        { anchorNavigation: true, maxHeight: 100 },
+        (page) => {
+          page.Element.prototype.scrollIntoView = scrollIntoView;
+        }
+      );
+
+      setRect(document.getElementById(WRAPPER_ID)!, { height: 500 });
+      measure();
+
+      expect(
+        document.documentElement.hasAttribute(
+          'data-rn-sized-webview-scrollable'
+        )
+      ).toBe(true);
+      expect(userClick(document.getElementById('jump')!)).toBe(true);
+
+      document.getElementById('section-3')!.scrollIntoView({ block: 'end' });
+
+      expect(scrollIntoView).toHaveBeenCalledWith({ block: 'end' });
+      expect(messages.filter((message) => message.type === 'anchor')).toEqual(
+        []
+      );
+    });
+
+    it('writes theme tokens on the root and updates them in place', async () => {
+      const { window, document, messages } = await loadBridge('<p>Hi</p>', {
+        theme: {
+          colorScheme: 'dark',
+          tokens: { 'textColor': '#fafafa', '--gap': 8 },
+        },
+      });
+      const root = document.documentElement;
+
+      expect(root.style.getPropertyValue('--text-color')).toBe('#fafafa');
+      expect(root.style.getPropertyValue('--gap')).toBe('8');
+      expect(root.style.getPropertyValue('color-scheme')).toBe('dark');
+      expect(root.classList.contains('rn-color-scheme-dark')).toBe(true);
+
+      setRect(document.getElementById(WRAPPER_ID)!, { height: 90 });
+      runCommand(window, 'setTheme', {
+        colorScheme: 'light',
+        tokens: { textColor: '#111111' },
+      });
+
+      expect(root.style.getPropertyValue('--text-color')).toBe('#111111');
+      expect(root.style.getPropertyValue('--gap')).toBe('');
+      expect(root.style.getPropertyValue('color-scheme')).toBe('light');
+      expect(Array.from(root.classList)).toEqual(['rn-color-scheme-light']);
+      expect(messages.at(-1)).toMatchObject({
+        type: 'height',
+        payload: { height: 90, reason: 'theme' },
+      });
+    });
+
+    it('scales text through text-size-adjust', async () => {
+      const { window, document, messages } = await loadBridge('<p>Hi</p>', {
+        fontScale: 1.3,
+      });
+      const root = document.documentElement;
+      // jsdom drops the unprefixed property, so only WebKit's is checked.
+      const readTextSizeAdjust = () =>
+        root.style.getPropertyValue('-webkit-text-size-adjust');
+
+      expect(readTextSizeAdjust()).toBe('130%');
+
+      setRect(document.getElementById(WRAPPER_ID)!, { height: 120 });
+      runCommand(window, 'setFontScale', 1);
+
+      expect(readTextSizeAdjust()).toBe('');
+      expect(messages.at(-1)).toMatchObject({
+        type: 'height',
+        payload: { height: 120, reason: 'fontScale' },
+      });
+    });
+
+    it('leaves links into the current document to the page', async () => {
+      const { document, messages } = await loadBridge(
+        '<a id="top" href="#">Top</a><a id="intro" href="#intro">Intro</a><a id="out" href="https://example.com/">Out</a>',
+        { interceptLinks: true }
+      );
+
+      userClick(document.getElementById('top')!);
+      userClick(document.getElementById('intro')!);
+      userClick(document.getElementById('out')!);
+
+      expect(
+        messages
+          .filter((message) => message.type === 'link')
+          .map((message) => message.payload)
+      ).toEqual([{ url: 'https://example.com/', target: null, text: 'Out' }]);
+    });
+
+    it('ignores link clicks made by page scripts', async () => {
+      const { document, messages } = await loadBridge(
+        '<a id="pay" href="myapp://pay?to=evil">Pay</a>',
+        { interceptLinks: true }
+      );
+      const pay = document.getElementById('pay')!;
+      let prevented: boolean | undefined;
+
+      document.addEventListener('click', (event) => {
+        prevented = event.defaultPrevented;
+      });
+      pay.click();
+
+      expect(prevented).toBe(true);
+      expect(messages.filter((message) => message.type === 'link')).toEqual([]);
+
+      userClick(pay);
+
+      expect(
+        messages
+          .filter((message) => message.type === 'link')
+          .map((message) => message.payload.url)
+      ).toEqual(['myapp://pay?to=evil']);
+    });
+
+    it('only forwards window.open() calls following a user gesture', async () => {
+      const { window, document, messages } = await loadBridge(
+        '<button id="share">Share</button>',
+        { interceptLinks: true }
+      );
+      const opened = () =>
+        messages
+          .filter((message) => message.type === 'link')
+          .map((message) => message.payload.url);
+      const now = jest.spyOn(window.Date, 'now').mockReturnValue(10000);
+
+      try {
+        window.open('https://ads.dev/');
+
+        expect(opened()).toEqual([]);
+
+        userClick(document.getElementById('share')!);
+        now.mockReturnValue(10500);
+        window.open('https://example.com/share');
+
+        expect(opened()).toEqual(['https://example.com/share']);
+
+        now.mockReturnValue(12000);
+        window.open('https://ads.dev/later');
+
+        expect(opened()).toEqual(['https://example.com/share']);
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('reports element bounds relative to the container', async () => {
+      const { window, document, messages } = await loadBridge(
+        '<p>Intro</p><h2 id="comments">Comments</h2>'
+      );
+
+      setRect(document.getElementById('comments')!, {
+        top: 40,
+        height: 20,
+        width: 300,
+      });
+      Object.defineProperty(window, 'pageYOffset', { value: 300 });
+      runCommand(window, 'getElementRect', 'rect-1', '#comments');
+      runCommand(window, 'getElementRect', 'rect-2', '#missing');
+
+      expect(
+        messages
+          .filter((message) => message.type === 'elementRect')
+          .map((message) => message.payload)
+      ).toEqual([
+        {
+          requestId: 'rect-1',
+          rect: { x: 0, y: 40, width: 300, height: 20 },
+        },
+        { requestId: 'rect-2', rect: null },
+      ]);
+    });
+
+    describe('find in page', () => {
+      const find = async (body: string, query: string) => {
+        const page = await loadBridge(body);
+        const search = (text: string, caseSensitive = false) => {
+          runCommand(page.window, 'find', 1, text, caseSensitive, false);
+          return page.messages
+            .filter((message) => message.type === 'findResult')
+            .at(-1)?.payload;
+        };
+
+        return { ...page, search, result: search(query) };
+      };
+      const readMarks = (document: Document) =>
+        Array.from(document.querySelectorAll('mark'), (mark) => [
+          mark.textContent,
+          mark.getAttribute('data-rn-sized-webview-match'),
+        ]);
+
+      it('finds matches spanning inline elements', async () => {
+        const { document, result } = await find(
+          '<p>Sign the <b>in</b>demnity form.</p><p>in</p><p>demnity</p>',
+          'indemnity'
+        );
+
+        expect(result).toMatchObject({ count: 1, activeIndex: 0 });
+        expect(readMarks(document)).toEqual([
+          ['in', 'active'],
+          ['demnity', 'active'],
+        ]);
+      });
+
+      it('restores only the text nodes it split', async () => {
+        const { window, document, search } = await find(
+          '<p id="own"></p><p id="terms">Sign the <b>in</b>demnity form.</p>',
+          'indemnity'
+        );
+        const terms = document.getElementById('terms')!;
+        const own = document.getElementById('own')!;
+
+        own.append('Indemnity', ' clause');
+        search('indemnity');
+        runCommand(window, 'clearFind');
+
+        expect(document.querySelectorAll('mark')).toHaveLength(0);
+        expect(terms.innerHTML).toBe('Sign the <b>in</b>demnity form.');
+        expect(terms.childNodes).toHaveLength(3);
+        expect(Array.from(own.childNodes, (node) => node.nodeValue)).toEqual([
+          'Indemnity',
+          ' clause',
+        ]);
+      });
+
+      it('maps case-insensitive matches back to the original text', async () => {
+        const { document, result } = await find(
+          '<p>İstanbul AND İzmir</p>',
+          'and i\u0307zmir'
+        );
+
+        expect(result).toMatchObject({ count: 1 });
+        expect(readMarks(document)).toEqual([['AND İzmir', 'active']]);
+      });
+
+      it('skips hidden matches', async () => {
+        const { document, result } = await find(
+          '<p>Shown <span style="display: none">secret</span></p>' +
+            '<div style="display: none"><p>secret</p></div>' +
+            '<p style="visibility: hidden">secret</p>' +
+            '<p>Secret</p>',
+          'secret'
+        );
+
+        expect(result).toMatchObject({ count: 1, offsets: [0] });
+        expect(readMarks(document)).toEqual([['Secret', 'active']]);
+      });
+    });
+  });
+});
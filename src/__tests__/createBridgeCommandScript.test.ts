@@ -0,0 +1,41 @@
+import { BRIDGE_GLOBAL_KEY } from '../constants/bridgeProtocol';
+import { createBridgeCommandScript } from '../utils/createBridgeCommandScript';
+
+const run = (script: string, target: Record<string, unknown>) =>
+  // eslint-disable-next-line no-new-func
+  new Function('window', script)(target);
+
+describe('createBridgeCommandScript', () => {
+  it('invokes the requested command on the installed bridge', () => {
+    const refresh = jest.fn();
+    const destroy = jest.fn();
+
+    const result = run(createBridgeCommandScript('refresh'), {
+      [BRIDGE_GLOBAL_KEY]: { refresh, destroy },
+    });
+
+    expect(result).toBeUndefined();
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(destroy).not.toHaveBeenCalled();
+  });
+
+  it('forwards JSON arguments to the command', () => {
+    const setMaxHeight = jest.fn();
+
+    run(createBridgeCommandScript('setMaxHeight', 420), {
+      [BRIDGE_GLOBAL_KEY]: { setMaxHeight },
+    });
+
+    expect(setMaxHeight).toHaveBeenCalledWith(420);
+  });
+
+  it('is a no-op when the bridge is not installed', () => {
+    expect(() => run(createBridgeCommandScript('destroy'), {})).not.toThrow();
+  });
+
+  it('ends with the evaluation guard expected by injectJavaScript', () => {
+    expect(createBridgeCommandScript('refresh').trim().endsWith('true;')).toBe(
+      true
+    );
+  });
+});
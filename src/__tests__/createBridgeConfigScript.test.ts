@@ -0,0 +1,33 @@
+import { BRIDGE_CONFIG_KEY } from '../constants/bridgeProtocol';
+import { createBridgeConfigScript } from '../utils/createBridgeConfigScript';
+
+describe('createBridgeConfigScript', () => {
+  it('assigns the serialised configuration on window', () => {
+    const target: Record<string, unknown> = {};
+    const script = createBridgeConfigScript({ instanceId: 'a"b' });
+
+    // eslint-disable-next-line no-new-func
+    new Function('window', script)(target);
+
+    expect(target[BRIDGE_CONFIG_KEY]).toEqual({ instanceId: 'a"b' });
+  });
+
+  it('serialises nested options such as measure functions', () => {
+    const target: Record<string, unknown> = {};
+    const measure = '(doc) => doc.querySelector("#a").scrollHeight';
+    const script = createBridgeConfigScript({
+      instanceId: 'b',
+      measureTarget: { measure },
+      trailingNodes: { mode: 'collapse' },
+    });
+
+    // eslint-disable-next-line no-new-func
+    new Function('window', script)(target);
+
+    expect(target[BRIDGE_CONFIG_KEY]).toEqual({
+      instanceId: 'b',
+      measureTarget: { measure },
+      trailingNodes: { mode: 'collapse' },
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { createHeightCacheKey } from '../utils/createHeightCacheKey';
+
+describe('createHeightCacheKey', () => {
+  it('derives stable keys from inline HTML and the rounded width', () => {
+    const key = createHeightCacheKey({ html: '<p>Hello</p>' }, 390.4);
+
+    expect(key).toMatch(/^html:[0-9a-z]+:12@390$/);
+    expect(createHeightCacheKey({ html: '<p>Hello</p>' }, 390)).toBe(key);
+  });
+
+  it('distinguishes content, base URL and width', () => {
+    const base = createHeightCacheKey({ html: '<p>Hello</p>' }, 390);
+
+    expect(createHeightCacheKey({ html: '<p>Hellp</p>' }, 390)).not.toBe(base);
+    expect(
+      createHeightCacheKey(
+        { html: '<p>Hello</p>', baseUrl: 'https://a.dev' },
+        390
+      )
+    ).not.toBe(base);
+    expect(createHeightCacheKey({ html: '<p>Hello</p>' }, 768)).not.toBe(base);
+  });
+
+  it('derives keys from URIs', () => {
+    expect(createHeightCacheKey({ uri: 'https://example.com' }, 320)).toMatch(
+      /^uri:[0-9a-z]+:19@320$/
+    );
+  });
+
+  it('returns undefined for sources without html or uri', () => {
+    expect(createHeightCacheKey(undefined, 320)).toBeUndefined();
+    expect(createHeightCacheKey({}, 320)).toBeUndefined();
+  });
+});
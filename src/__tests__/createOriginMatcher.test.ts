@@ -0,0 +1,56 @@
+import {
+  createOriginMatcher,
+  extractOrigin,
+} from '../utils/createOriginMatcher';
+
+describe('createOriginMatcher', () => {
+  it('extracts origins the way react-native-webview does', () => {
+    expect(extractOrigin('https://example.com:8080/path?q=1')).toBe(
+      'https://example.com:8080'
+    );
+    expect(extractOrigin('data:text/html,<p>Hi</p>')).toBe('data:text');
+    expect(extractOrigin('about:blank')).toBe('about:blank');
+    expect(extractOrigin('https://me:pw@example.com?q=1')).toBe(
+      'https://example.com'
+    );
+    expect(extractOrigin('/relative/path')).toBe('');
+  });
+
+  it('expands wildcards and matches whole origins only', () => {
+    const isAllowed = createOriginMatcher([
+      'https://*.example.com',
+      'https://docs.dev',
+      'about:*',
+    ]);
+
+    expect(isAllowed('https://cdn.example.com/a.png')).toBe(true);
+    expect(isAllowed('https://docs.dev/guide')).toBe(true);
+    expect(isAllowed('about:blank')).toBe(true);
+    expect(isAllowed('http://cdn.example.com/a.png')).toBe(false);
+    expect(isAllowed('https://docs.dev.evil.net/')).toBe(false);
+    expect(isAllowed('https://docsxdev/')).toBe(false);
+    expect(isAllowed('/relative/path')).toBe(false);
+  });
+
+  it('ends the origin at the query, fragment or backslash', () => {
+    const isAllowed = createOriginMatcher(['https://*.example.com']);
+
+    expect(isAllowed('https://evil.net?.example.com')).toBe(false);
+    expect(isAllowed('https://evil.net#.example.com')).toBe(false);
+    expect(isAllowed('https://evil.net\\.example.com')).toBe(false);
+    expect(isAllowed('https://evil.net@cdn.example.com')).toBe(true);
+    expect(isAllowed('https://cdn.example.com@evil.net')).toBe(false);
+  });
+
+  it('admits every origin of a scheme-only pattern', () => {
+    const isAllowed = createOriginMatcher(['https://', 'mailto:']);
+
+    expect(isAllowed('https://example.com/a')).toBe(true);
+    expect(isAllowed('mailto:me@example.com')).toBe(true);
+    expect(isAllowed('http://example.com/a')).toBe(false);
+  });
+
+  it('allows nothing without patterns', () => {
+    expect(createOriginMatcher([])('about:blank')).toBe(false);
+  });
+});
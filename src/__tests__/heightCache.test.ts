@@ -0,0 +1,65 @@
+import {
+  createMemoryHeightCache,
+  sharedHeightCache,
+} from '../utils/heightCache';
+
+describe('createMemoryHeightCache', () => {
+  it('stores and returns heights by key', () => {
+    const cache = createMemoryHeightCache();
+
+    expect(cache.get('a')).toBeUndefined();
+
+    cache.set('a', 120);
+
+    expect(cache.get('a')).toBe(120);
+    expect(cache.size).toBe(1);
+  });
+
+  it('evicts the least recently used entry once full', () => {
+    const cache = createMemoryHeightCache({ maxEntries: 2 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('refreshes recency when an existing key is overwritten', () => {
+    const cache = createMemoryHeightCache({ maxEntries: 2 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(10);
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('keeps at least one entry and supports removal', () => {
+    const cache = createMemoryHeightCache({ maxEntries: 0 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    expect(cache.size).toBe(1);
+    expect(cache.get('b')).toBe(2);
+
+    cache.delete('b');
+    expect(cache.size).toBe(0);
+
+    cache.set('c', 3);
+    cache.clear();
+    expect(cache.get('c')).toBeUndefined();
+  });
+
+  it('exposes a shared default cache', () => {
+    sharedHeightCache.set('shared', 42);
+    expect(sharedHeightCache.get('shared')).toBe(42);
+    sharedHeightCache.clear();
+  });
+});
@@ -1,29 +1,92 @@
-import { render, act } from '@testing-library/react-native';
-import { View } from 'react-native';
+import { render, act, type RenderResult } from '@testing-library/react-native';
+import { createRef, type ComponentProps, type ComponentRef } from 'react';
+import {
+  Animated,
+  Linking,
+  Dimensions,
+  Platform,
+  ScrollView,
+  Text,
+  View,
+} from 'react-native';
+import { WebView } from 'react-native-webview';
 
-import { SizedWebView } from '../components/SizedWebView';
-import { AUTO_HEIGHT_BRIDGE } from '../constants/autoHeightBridge';
+import { PlaceholderShimmer } from '../components/PlaceholderShimmer';
+import {
+  SizedWebView,
+  type SizedWebViewHandle,
+} from '../components/SizedWebView';
+import {
+  AUTO_HEIGHT_BRIDGE,
+  createAutoHeightBridge,
+} from '../constants/autoHeightBridge';
+import {
+  BRIDGE_MESSAGE_NAMESPACE,
+  BRIDGE_PROTOCOL_VERSION,
+} from '../constants/bridgeProtocol';
+import * as composeInjectedScriptModule from '../utils/composeInjectedScript';
 import { composeInjectedScript } from '../utils/composeInjectedScript';
+import { createBridgeCommandScript } from '../utils/createBridgeCommandScript';
+import { createBridgeConfigScript } from '../utils/createBridgeConfigScript';
+import { createHeightCacheKey } from '../utils/createHeightCacheKey';
+import { DEFAULT_CONTENT_SECURITY_POLICY } from '../utils/injectContentSecurityPolicy';
+import {
+  createMemoryHeightCache,
+  sharedHeightCache,
+} from '../utils/heightCache';
 
 jest.mock('../hooks/useAutoHeight', () => {
   const setHeightFromPayload = jest.fn();
+  const setWidthFromPayload = jest.fn();
+  const markLoadStart = jest.fn();
+  const markLoadEnd = jest.fn();
+  const markLoadError = jest.fn();
   return {
     __esModule: true,
     useAutoHeight: jest.fn(() => ({
       height: 240,
       setHeightFromPayload,
+      width: 320,
+      setWidthFromPayload,
+      isOverflowing: false,
+      isMeasured: true,
+      animatedHeight: undefined,
+      markLoadStart,
+      markLoadEnd,
+      markLoadError,
     })),
     __setHeightFromPayload: setHeightFromPayload,
+    __setWidthFromPayload: setWidthFromPayload,
+    __markLoadEvents: { markLoadStart, markLoadEnd, markLoadError },
   };
 });
 
 const capturedWebViewProps: Array<Record<string, unknown>> = [];
 
+const mockWebViewMethods = {
+  injectJavaScript: jest.fn(),
+  postMessage: jest.fn(),
+  reload: jest.fn(),
+  goBack: jest.fn(),
+  goForward: jest.fn(),
+  stopLoading: jest.fn(),
+  requestFocus: jest.fn(),
+};
+
 jest.mock('react-native-webview', () => {
-  const MockWebView = (props: any) => {
-    capturedWebViewProps.push(props);
-    return null;
-  };
+  const { Component } = jest.requireActual('react');
+
+  class MockWebView extends Component<any> {
+    constructor(props: any) {
+      super(props);
+      Object.assign(this, mockWebViewMethods);
+    }
+
+    render() {
+      capturedWebViewProps.push(this.props);
+      return null;
+    }
+  }
 
   (MockWebView as { displayName?: string }).displayName = 'MockWebView';
 
@@ -33,19 +96,128 @@ jest.mock('react-native-webview', () => {
   };
 });
 
+const readInstanceId = (props: Record<string, unknown>) => {
+  const script = String(props.injectedJavaScriptBeforeContentLoaded);
+  const match = /"instanceId":"([^"]+)"/.exec(script);
+  return match?.[1] ?? '';
+};
+
+type BridgeEvent = { nativeEvent: { data: string } };
+
+const createBridgeEvent = (
+  instanceId: string,
+  payload: Record<string, unknown>,
+  overrides: Record<string, unknown> = {}
+): BridgeEvent => ({
+  nativeEvent: {
+    data: JSON.stringify({
+      namespace: BRIDGE_MESSAGE_NAMESPACE,
+      version: BRIDGE_PROTOCOL_VERSION,
+      type: 'height',
+      instanceId,
+      payload,
+      ...overrides,
+    }),
+  },
+});
+
+/**
+ * Renders a SizedWebView and returns helpers driving its WebView: `send` posts
+ * a bridge message, `shouldStart` asks whether a navigation may start and
+ * `loadEnd` reports a finished load.
+ */
+const renderWithBridge = (props: ComponentProps<typeof SizedWebView>) => {
+  const ref = createRef<SizedWebViewHandle>();
+  const renderResult = render(<SizedWebView ref={ref} {...props} />);
+  const webViewProps = capturedWebViewProps.at(-1) ?? {};
+  const instanceId = readInstanceId(webViewProps);
+  const send = (type: string, payload: Record<string, unknown>) => {
+    act(() => {
+      (capturedWebViewProps.at(-1)!.onMessage as (evt: BridgeEvent) => void)(
+        createBridgeEvent(instanceId, payload, { type })
+      );
+    });
+  };
+  const shouldStart = (url: string, isTopFrame = true) =>
+    (
+      capturedWebViewProps.at(-1)!.onShouldStartLoadWithRequest as (
+        navigation: unknown
+      ) => boolean
+    )({ url, isTopFrame, navigationType: 'other' });
+  const loadEnd = (url: string) => {
+    act(() => {
+      (webViewProps.onLoadEnd as (evt: unknown) => void)({
+        nativeEvent: { url },
+      });
+    });
+  };
+
+  return { ref, renderResult, webViewProps, send, shouldStart, loadEnd };
+};
+
+/**
+ * Renders a standalone ScrollView with `scrollTo` stubbed out. The React Native
+ * mocks share their instance methods between instances, so the spies are reset
+ * before use.
+ */
+const renderScrollView = () => {
+  const scrollViewRef = createRef<ComponentRef<typeof ScrollView>>();
+  const renderResult = render(<ScrollView ref={scrollViewRef} />);
+  const scrollView = scrollViewRef.current!;
+  const content = renderResult
+    .UNSAFE_getByType(ScrollView)
+    .findByType(View).instance;
+  const getInnerViewRef = jest
+    .spyOn(scrollView, 'getInnerViewRef')
+    .mockReset()
+    .mockReturnValue(content);
+  const scrollTo = jest.spyOn(scrollView, 'scrollTo').mockReset();
+
+  return { scrollViewRef, content, getInnerViewRef, scrollTo };
+};
+
+/**
+ * Places the SizedWebView container `y` dp below the top of the scroll content.
+ */
+const stubContainerOffset = (renderResult: RenderResult, y: number) => {
+  const container: {
+    measureLayout: (
+      relativeTo: unknown,
+      onSuccess: (x: number, y: number) => void
+    ) => void;
+  } = renderResult.UNSAFE_getByType(View).instance;
+
+  return jest
+    .spyOn(container, 'measureLayout')
+    .mockReset()
+    .mockImplementation((_relativeTo, onSuccess) => onSuccess(0, y));
+};
+
 describe('SizedWebView', () => {
   beforeEach(() => {
     capturedWebViewProps.length = 0;
+    Object.values(mockWebViewMethods).forEach((method) => method.mockClear());
 
-    const { useAutoHeight } = jest.requireMock('../hooks/useAutoHeight');
-    const { __setHeightFromPayload } = jest.requireMock(
-      '../hooks/useAutoHeight'
-    );
+    const {
+      useAutoHeight,
+      __setHeightFromPayload,
+      __setWidthFromPayload,
+      __markLoadEvents,
+    } = jest.requireMock('../hooks/useAutoHeight');
     (useAutoHeight as jest.Mock).mockReturnValue({
       height: 240,
       setHeightFromPayload: __setHeightFromPayload,
+      width: 320,
+      setWidthFromPayload: __setWidthFromPayload,
+      isOverflowing: false,
+      isMeasured: true,
+      ...__markLoadEvents,
     });
     __setHeightFromPayload.mockClear();
+    __setWidthFromPayload.mockClear();
+    Object.values(__markLoadEvents).forEach((mark) =>
+      (mark as jest.Mock).mockClear()
+    );
   });
 
   it('renders a container view that reflects the measured height', () => {
@@ -63,7 +235,7 @@ describe('SizedWebView', () => {
       />
     );
 
-    const container = renderResult.UNSAFE_getByType(View);
+    const container = renderResult.UNSAFE_getByType(Animated.View);
     expect(container.props.style).toEqual([
       { height: 240 },
       { backgroundColor: 'red' },
@@ -77,10 +249,18 @@ describe('SizedWebView', () => {
     ]);
     expect(props.originWhitelist).toEqual(['*']);
     expect(props.scrollEnabled).toBe(false);
+    expect(props.nestedScrollEnabled).toBe(false);
     expect(props.showsVerticalScrollIndicator).toBe(false);
     expect(props.javaScriptEnabled).toBe(true);
 
     const bridgeScript = composeInjectedScript(
+      createBridgeConfigScript({
+        instanceId: readInstanceId(props),
+        sizing: 'height',
+        maxHeight: undefined,
+        interceptLinks: true,
+        blockWindowOpen: true,
+      }),
       AUTO_HEIGHT_BRIDGE,
       "console.log('before');"
     );
@@ -94,7 +274,39 @@ describe('SizedWebView', () => {
     });
   });
 
-  it('delegates WebView message events to the auto-height hook and user callback', () => {
+  it('consumes bridge messages and forwards foreign messages to the user callback', () => {
+    const { __setHeightFromPayload } = jest.requireMock(
+      '../hooks/useAutoHeight'
+    );
+    const onMessage = jest.fn();
+
+    const renderResult = render(
+      <SizedWebView source={{ html: '<p>Hi</p>' }} onMessage={onMessage} />
+    );
+
+    const webViewProps = capturedWebViewProps.at(-1) ?? {};
+    const handler = webViewProps.onMessage as (evt: unknown) => void;
+    const bridgeEvent = createBridgeEvent(readInstanceId(webViewProps), {
+      height: 360,
+    });
+    const foreignEvent = { nativeEvent: { data: '42' } };
+
+    act(() => {
+      handler(bridgeEvent);
+      handler(foreignEvent);
+    });
+
+    expect(__setHeightFromPayload).toHaveBeenCalledTimes(1);
+    expect(__setHeightFromPayload).toHaveBeenCalledWith(360);
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(foreignEvent);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('ignores bridge messages from other instances, versions or of unknown type', () => {
     const { __setHeightFromPayload } = jest.requireMock(
       '../hooks/useAutoHeight'
     );
@@ -105,14 +317,23 @@ describe('SizedWebView', () => {
     );
 
     const webViewProps = capturedWebViewProps.at(-1) ?? {};
-    const event = { nativeEvent: { data: '360' } } as any;
+    const handler = webViewProps.onMessage as (evt: unknown) => void;
+    const instanceId = readInstanceId(webViewProps);
 
     act(() => {
-      (webViewProps.onMessage as (evt: unknown) => void)?.(event);
+      handler(createBridgeEvent('someone-else', { height: 100 }));
+      handler(
+        createBridgeEvent(
+          instanceId,
+          { height: 100 },
+          { version: BRIDGE_PROTOCOL_VERSION + 1 }
+        )
+      );
+      handler(createBridgeEvent(instanceId, {}, { type: 'unknown' }));
     });
 
-    expect(__setHeightFromPayload).toHaveBeenCalledWith('360');
-    expect(onMessage).toHaveBeenCalledWith(event);
+    expect(__setHeightFromPayload).not.toHaveBeenCalled();
+    expect(onMessage).not.toHaveBeenCalled();
 
     act(() => {
       renderResult.unmount();
@@ -129,14 +350,14 @@ describe('SizedWebView', () => {
     );
 
     const webViewProps = capturedWebViewProps.at(-1) ?? {};
+    const handler = webViewProps.onMessage as (evt: unknown) => void;
 
     act(() => {
-      (webViewProps.onMessage as (evt: unknown) => void)?.({
-        nativeEvent: { data: '480' },
-      });
+      handler(createBridgeEvent(readInstanceId(webViewProps), { height: 480 }));
+      handler({ nativeEvent: { data: 'page message' } });
     });
 
-    expect(__setHeightFromPayload).toHaveBeenCalledWith('480');
+    expect(__setHeightFromPayload).toHaveBeenCalledWith(480);
 
     act(() => {
       renderResult.unmount();
@@ -147,6 +368,7 @@ describe('SizedWebView', () => {
     const renderResult = render(
       <SizedWebView
         source={{ html: '<p>Hi</p>' }}
+        securityMode="permissive"
         originWhitelist={['https://example.com']}
         scrollEnabled
         showsVerticalScrollIndicator
@@ -178,7 +400,15 @@ describe('SizedWebView', () => {
 
     expect(hookModule.useAutoHeight).toHaveBeenLastCalledWith({
       minHeight: 77,
+      maxHeight: undefined,
       onHeightChange,
+      onContentSizeChange: undefined,
+      onOverflowChange: undefined,
+      animateHeight: undefined,
+      heightCache: sharedHeightCache,
+      cacheKey: createHeightCacheKey({ html: '<p>hook</p>' }, 750),
+      onStatusChange: undefined,
+      statusTimeout: undefined,
     });
 
     act(() => {
@@ -201,4 +431,1800 @@ describe('SizedWebView', () => {
       renderResult.unmount();
     });
   });
+
+  it('exposes an imperative handle wrapping the WebView and the bridge', () => {
+    const ref = createRef<SizedWebViewHandle>();
+
+    const renderResult = render(
+      <SizedWebView ref={ref} source={{ html: '<p>Ref</p>' }} />
+    );
+
+    const handle = ref.current!;
+
+    act(() => {
+      handle.refresh();
+      handle.destroyBridge();
+      handle.injectJavaScript('window.x = 1; true;');
+      handle.postMessage('ping');
+      handle.reload();
+      handle.goBack();
+      handle.goForward();
+      handle.stopLoading();
+      handle.requestFocus();
+    });
+
+    expect(handle.getHeight()).toBe(240);
+    expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+      [createBridgeCommandScript('refresh')],
+      [createBridgeCommandScript('destroy')],
+      ['window.x = 1; true;'],
+    ]);
+    expect(mockWebViewMethods.postMessage).toHaveBeenCalledWith('ping');
+    expect(mockWebViewMethods.reload).toHaveBeenCalledTimes(1);
+    expect(mockWebViewMethods.goBack).toHaveBeenCalledTimes(1);
+    expect(mockWebViewMethods.goForward).toHaveBeenCalledTimes(1);
+    expect(mockWebViewMethods.stopLoading).toHaveBeenCalledTimes(1);
+    expect(mockWebViewMethods.requestFocus).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('turns handle methods into no-ops once the WebView is gone', () => {
+    const ref = createRef<SizedWebViewHandle>();
+
+    const renderResult = render(
+      <SizedWebView ref={ref} source={{ html: '<p>Ref</p>' }} />
+    );
+
+    const handle = ref.current!;
+
+    act(() => {
+      renderResult.unmount();
+    });
+
+    handle.refresh();
+    handle.destroyBridge();
+    handle.injectJavaScript('true;');
+    handle.postMessage('ping');
+    handle.reload();
+    handle.goBack();
+    handle.goForward();
+    handle.stopLoading();
+    handle.requestFocus();
+
+    Object.values(mockWebViewMethods).forEach((method) => {
+      expect(method).not.toHaveBeenCalled();
+    });
+  });
+
+  it.each([
+    ['height', [{ height: 240 }, { margin: 4 }]],
+    ['width', [{ width: 320 }, { margin: 4 }]],
+    ['both', [{ height: 240, width: 320 }, { margin: 4 }]],
+  ] as const)(
+    'applies the measured size along the %s axis',
+    (sizing, expectedStyle) => {
+      const renderResult = render(
+        <SizedWebView
+          sizing={sizing}
+          containerStyle={{ margin: 4 }}
+          source={{ html: '<span>chip</span>' }}
+        />
+      );
+
+      const container = renderResult.UNSAFE_getByType(Animated.View);
+      expect(container.props.style).toEqual(expectedStyle);
+
+      const props = capturedWebViewProps.at(-1) ?? {};
+      expect(props.injectedJavaScriptBeforeContentLoaded).toContain(
+        `"sizing":"${sizing}"`
+      );
+
+      act(() => {
+        renderResult.unmount();
+      });
+    }
+  );
+
+  it('forwards reported widths and the content size callback to the hook', () => {
+    const { __setWidthFromPayload, useAutoHeight } = jest.requireMock(
+      '../hooks/useAutoHeight'
+    );
+    const onContentSizeChange = jest.fn();
+
+    const renderResult = render(
+      <SizedWebView
+        sizing="both"
+        source={{ html: '<span>chip</span>' }}
+        onContentSizeChange={onContentSizeChange}
+      />
+    );
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({ onContentSizeChange })
+    );
+
+    const webViewProps = capturedWebViewProps.at(-1) ?? {};
+
+    act(() => {
+      (webViewProps.onMessage as (evt: unknown) => void)(
+        createBridgeEvent(readInstanceId(webViewProps), {
+          height: 24,
+          width: 88,
+        })
+      );
+    });
+
+    expect(__setWidthFromPayload).toHaveBeenCalledWith(88);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('enables internal scrolling while the content overflows maxHeight', () => {
+    const { useAutoHeight, __setHeightFromPayload, __setWidthFromPayload } =
+      jest.requireMock('../hooks/useAutoHeight');
+    (useAutoHeight as jest.Mock).mockReturnValue({
+      height: 400,
+      setHeightFromPayload: __setHeightFromPayload,
+      width: 320,
+      setWidthFromPayload: __setWidthFromPayload,
+      isOverflowing: true,
+      isMeasured: true,
+    });
+    const onOverflowChange = jest.fn();
+
+    const renderResult = render(
+      <SizedWebView
+        maxHeight={400}
+        onOverflowChange={onOverflowChange}
+        source={{ html: '<p>Long</p>' }}
+      />
+    );
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({ maxHeight: 400, onOverflowChange })
+    );
+
+    const props = capturedWebViewProps.at(-1) ?? {};
+    expect(props.scrollEnabled).toBe(true);
+    expect(props.nestedScrollEnabled).toBe(true);
+    expect(props.showsVerticalScrollIndicator).toBe(true);
+    expect(props.injectedJavaScriptBeforeContentLoaded).toContain(
+      '"maxHeight":400'
+    );
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          maxHeight={400}
+          scrollEnabled={false}
+          nestedScrollEnabled={false}
+          showsVerticalScrollIndicator={false}
+          source={{ html: '<p>Long</p>' }}
+        />
+      );
+    });
+
+    const overridden = capturedWebViewProps.at(-1) ?? {};
+    expect(overridden.scrollEnabled).toBe(false);
+    expect(overridden.nestedScrollEnabled).toBe(false);
+    expect(overridden.showsVerticalScrollIndicator).toBe(false);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('pushes maxHeight changes to the running bridge', () => {
+    const renderResult = render(
+      <SizedWebView maxHeight={400} source={{ html: '<p>Long</p>' }} />
+    );
+
+    expect(mockWebViewMethods.injectJavaScript).not.toHaveBeenCalled();
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView maxHeight={500} source={{ html: '<p>Long</p>' }} />
+      );
+    });
+
+    act(() => {
+      renderResult.rerender(<SizedWebView source={{ html: '<p>Long</p>' }} />);
+    });
+
+    expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+      [createBridgeCommandScript('setMaxHeight', 500)],
+      [createBridgeCommandScript('setMaxHeight', null)],
+    ]);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  describe('font scaling', () => {
+    const initialDimensions = {
+      window: Dimensions.get('window'),
+      screen: Dimensions.get('screen'),
+    };
+
+    const setFontScale = (fontScale: number) => {
+      Dimensions.set({
+        ...initialDimensions,
+        window: { ...initialDimensions.window, fontScale },
+      });
+    };
+
+    afterEach(() => {
+      act(() => {
+        Dimensions.set(initialDimensions);
+      });
+      jest.restoreAllMocks();
+    });
+
+    it('scales the page text with the OS font scale', () => {
+      setFontScale(1.5);
+      const renderResult = render(
+        <SizedWebView allowFontScaling source={{ html: '<p>Text</p>' }} />
+      );
+
+      expect(
+        capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+      ).toContain('"fontScale":1.5');
+      expect(capturedWebViewProps.at(-1)!.textZoom).toBeUndefined();
+
+      act(() => {
+        setFontScale(2);
+      });
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView source={{ html: '<p>Text</p>' }} />
+        );
+      });
+
+      expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+        [createBridgeCommandScript('setFontScale', 2)],
+        [createBridgeCommandScript('setFontScale', 1)],
+      ]);
+      expect(
+        capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+      ).not.toContain('"fontScale"');
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('leaves Android text zoom in charge when it is set', () => {
+      jest.replaceProperty(Platform, 'OS', 'android');
+      setFontScale(1.5);
+      const renderResult = render(
+        <SizedWebView allowFontScaling source={{ html: '<p>Text</p>' }} />
+      );
+
+      expect(capturedWebViewProps.at(-1)!.textZoom).toBe(100);
+      expect(
+        capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+      ).toContain('"fontScale":1.5');
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            allowFontScaling
+            textZoom={150}
+            source={{ html: '<p>Text</p>' }}
+          />
+        );
+      });
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView textZoom={175} source={{ html: '<p>Text</p>' }} />
+        );
+      });
+
+      expect(capturedWebViewProps.at(-1)!.textZoom).toBe(175);
+      expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+        [createBridgeCommandScript('setFontScale', 1)],
+        [createBridgeCommandScript('setFontScale', 1)],
+      ]);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  it('applies theme changes in place', () => {
+    const renderResult = render(
+      <SizedWebView
+        theme={{ colorScheme: 'light', tokens: { textColor: '#111' } }}
+        source={{ html: '<p>Themed</p>' }}
+      />
+    );
+
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toContain(
+      '"theme":{"colorScheme":"light","tokens":{"textColor":"#111"}}'
+    );
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          theme={{ colorScheme: 'light', tokens: { textColor: '#111' } }}
+          source={{ html: '<p>Themed</p>' }}
+        />
+      );
+    });
+
+    expect(mockWebViewMethods.injectJavaScript).not.toHaveBeenCalled();
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          theme={{ colorScheme: 'dark', tokens: { textColor: '#eee' } }}
+          source={{ html: '<p>Themed</p>' }}
+        />
+      );
+    });
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView source={{ html: '<p>Themed</p>' }} />
+      );
+    });
+
+    expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+      [
+        createBridgeCommandScript('setTheme', {
+          colorScheme: 'dark',
+          tokens: { textColor: '#eee' },
+        }),
+      ],
+      [createBridgeCommandScript('setTheme', null)],
+    ]);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it.each([
+    ['height', (value: Animated.Value) => ({ height: value })],
+    ['both', (value: Animated.Value) => ({ height: value, width: 320 })],
+  ] as const)(
+    'drives the container through the animated height when sizing %s',
+    (sizing, expectedSize) => {
+      const { useAutoHeight, __setHeightFromPayload, __setWidthFromPayload } =
+        jest.requireMock('../hooks/useAutoHeight');
+      const animatedHeight = new Animated.Value(240);
+      (useAutoHeight as jest.Mock).mockReturnValue({
+        height: 240,
+        setHeightFromPayload: __setHeightFromPayload,
+        width: 320,
+        setWidthFromPayload: __setWidthFromPayload,
+        isOverflowing: false,
+        isMeasured: true,
+        animatedHeight,
+      });
+
+      const renderResult = render(
+        <SizedWebView
+          animateHeight
+          sizing={sizing}
+          containerStyle={{ margin: 4 }}
+          source={{ html: '<p>Animated</p>' }}
+        />
+      );
+
+      expect(useAutoHeight).toHaveBeenLastCalledWith(
+        expect.objectContaining({ animateHeight: true })
+      );
+
+      const container = renderResult.UNSAFE_getByType(Animated.View);
+      expect(container.props.style).toEqual([
+        expectedSize(animatedHeight),
+        { margin: 4 },
+      ]);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    }
+  );
+
+  it('keeps the WebView mounted when animateHeight is toggled', () => {
+    const { useAutoHeight, __setHeightFromPayload, __setWidthFromPayload } =
+      jest.requireMock('../hooks/useAutoHeight');
+
+    const renderResult = render(
+      <SizedWebView source={{ html: '<p>Toggle</p>' }} />
+    );
+    const webView = renderResult.UNSAFE_getByType(WebView).instance;
+
+    (useAutoHeight as jest.Mock).mockReturnValue({
+      height: 240,
+      setHeightFromPayload: __setHeightFromPayload,
+      width: 320,
+      setWidthFromPayload: __setWidthFromPayload,
+      isOverflowing: false,
+      isMeasured: true,
+      animatedHeight: new Animated.Value(240),
+    });
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView animateHeight source={{ html: '<p>Toggle</p>' }} />
+      );
+    });
+
+    expect(renderResult.UNSAFE_getByType(WebView).instance).toBe(webView);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('keeps a static width when only the width is sized', () => {
+    const { useAutoHeight, __setHeightFromPayload, __setWidthFromPayload } =
+      jest.requireMock('../hooks/useAutoHeight');
+    (useAutoHeight as jest.Mock).mockReturnValue({
+      height: 240,
+      setHeightFromPayload: __setHeightFromPayload,
+      width: 320,
+      setWidthFromPayload: __setWidthFromPayload,
+      isOverflowing: false,
+      isMeasured: true,
+      animatedHeight: new Animated.Value(240),
+    });
+
+    const renderResult = render(
+      <SizedWebView
+        animateHeight
+        sizing="width"
+        source={{ html: '<span>chip</span>' }}
+      />
+    );
+
+    expect(renderResult.UNSAFE_getByType(Animated.View).props.style).toEqual([
+      { width: 320 },
+      undefined,
+    ]);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('lets callers scope, key or disable the height cache', () => {
+    const { useAutoHeight } = jest.requireMock('../hooks/useAutoHeight');
+    const cache = createMemoryHeightCache();
+
+    const renderResult = render(
+      <SizedWebView
+        heightCache={cache}
+        cacheKey="article-1"
+        source={{ html: '<p>cached</p>' }}
+      />
+    );
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({ heightCache: cache, cacheKey: 'article-1' })
+    );
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView heightCache={false} source={{ html: '<p>cached</p>' }} />
+      );
+    });
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({ heightCache: undefined })
+    );
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('keys the height cache on the source and the container width', () => {
+    const { useAutoHeight } = jest.requireMock('../hooks/useAutoHeight');
+
+    const renderResult = render(
+      <SizedWebView source={{ uri: 'https://example.com/article' }} />
+    );
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        cacheKey: createHeightCacheKey(
+          { uri: 'https://example.com/article' },
+          750
+        ),
+      })
+    );
+
+    act(() => {
+      renderResult.UNSAFE_getByType(Animated.View).props.onLayout({
+        nativeEvent: { layout: { x: 0, y: 0, width: 320.4, height: 100 } },
+      });
+    });
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        cacheKey: createHeightCacheKey(
+          { uri: 'https://example.com/article' },
+          320
+        ),
+      })
+    );
+
+    act(() => {
+      renderResult.rerender(<SizedWebView source={{ html: '<p>key</p>' }} />);
+    });
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        cacheKey: createHeightCacheKey({ html: '<p>key</p>' }, 320),
+      })
+    );
+
+    act(() => {
+      renderResult.rerender(<SizedWebView />);
+    });
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cacheKey: undefined })
+    );
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('drives the lifecycle status from WebView load events', () => {
+    const { useAutoHeight, __markLoadEvents } = jest.requireMock(
+      '../hooks/useAutoHeight'
+    );
+    const onStatusChange = jest.fn();
+    const onLoadStart = jest.fn();
+    const onLoadEnd = jest.fn();
+    const onError = jest.fn();
+
+    const renderResult = render(
+      <SizedWebView
+        onStatusChange={onStatusChange}
+        statusTimeout={5000}
+        onLoadStart={onLoadStart}
+        onLoadEnd={onLoadEnd}
+        onError={onError}
+        source={{ uri: 'https://example.com' }}
+      />
+    );
+
+    expect(useAutoHeight).toHaveBeenLastCalledWith(
+      expect.objectContaining({ onStatusChange, statusTimeout: 5000 })
+    );
+
+    const props = capturedWebViewProps.at(-1) ?? {};
+    const event = { nativeEvent: { url: 'https://example.com' } };
+
+    act(() => {
+      (props.onLoadStart as (evt: unknown) => void)(event);
+      (props.onLoadEnd as (evt: unknown) => void)(event);
+      (props.onError as (evt: unknown) => void)(event);
+    });
+
+    expect(__markLoadEvents.markLoadStart).toHaveBeenCalledTimes(1);
+    expect(__markLoadEvents.markLoadEnd).toHaveBeenCalledTimes(1);
+    expect(__markLoadEvents.markLoadError).toHaveBeenCalledTimes(1);
+    expect(onLoadStart).toHaveBeenCalledWith(event);
+    expect(onLoadEnd).toHaveBeenCalledWith(event);
+    expect(onError).toHaveBeenCalledWith(event);
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView source={{ uri: 'https://example.com' }} />
+      );
+    });
+
+    const bare = capturedWebViewProps.at(-1) ?? {};
+
+    act(() => {
+      (bare.onLoadStart as (evt: unknown) => void)(event);
+      (bare.onLoadEnd as (evt: unknown) => void)(event);
+      (bare.onError as (evt: unknown) => void)(event);
+    });
+
+    expect(__markLoadEvents.markLoadStart).toHaveBeenCalledTimes(2);
+    expect(__markLoadEvents.markLoadEnd).toHaveBeenCalledTimes(2);
+    expect(__markLoadEvents.markLoadError).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('compares object options by value', () => {
+    const compose = jest.spyOn(
+      composeInjectedScriptModule,
+      'composeInjectedScript'
+    );
+    const renderInline = () => (
+      <SizedWebView
+        bridgeOptions={{ idleDebounce: 400 }}
+        pruneTrailingNodes={{ selectors: ['br'], mode: 'collapse' }}
+        measureTarget={{ measure: '(doc) => doc.body' }}
+        baseStyles={{ preset: 'minimal', body: { padding: '16px' } }}
+        source={{ html: '<p>Inline</p>' }}
+      />
+    );
+    const renderResult = render(renderInline());
+    const script =
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded;
+    const composeCalls = compose.mock.calls.length;
+
+    act(() => {
+      renderResult.rerender(renderInline());
+    });
+
+    expect(compose).toHaveBeenCalledTimes(composeCalls);
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toBe(script);
+    expect(script).toContain(createAutoHeightBridge({ idleDebounce: 400 }));
+    expect(script).toContain('"baseStyles":{"preset":"minimal"');
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('forwards bridge options and measurement settings to the bridge', () => {
+    const renderResult = render(
+      <SizedWebView
+        bridgeOptions={{ idleDebounce: 400 }}
+        source={{ html: '<p>Tuned</p>' }}
+      />
+    );
+
+    const props = capturedWebViewProps.at(-1) ?? {};
+    const script = String(props.injectedJavaScriptBeforeContentLoaded);
+
+    expect(script).toContain(createAutoHeightBridge({ idleDebounce: 400 }));
+    expect(script).not.toContain(AUTO_HEIGHT_BRIDGE);
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          measurementStrategy="document"
+          source={{ html: '<p>Tuned</p>' }}
+        />
+      );
+    });
+
+    const documentProps = capturedWebViewProps.at(-1) ?? {};
+    expect(documentProps.injectedJavaScriptBeforeContentLoaded).toContain(
+      '"measurementStrategy":"document"'
+    );
+    expect(documentProps.injectedJavaScriptBeforeContentLoaded).not.toContain(
+      '"trailingNodes"'
+    );
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          pruneTrailingNodes={false}
+          source={{ html: '<p>Tuned</p>' }}
+        />
+      );
+    });
+
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toContain('"trailingNodes":false');
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          pruneTrailingNodes={{ selectors: ['br'], mode: 'collapse' }}
+          source={{ html: '<p>Tuned</p>' }}
+        />
+      );
+    });
+
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toContain('"trailingNodes":{"selectors":["br"],"mode":"collapse"}');
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          measureTarget="#article"
+          source={{ html: '<p>Tuned</p>' }}
+        />
+      );
+    });
+
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toContain('"measureTarget":"#article"');
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView deepMeasurement source={{ html: '<p>Tuned</p>' }} />
+      );
+    });
+
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toContain('"deepMeasurement":true');
+
+    act(() => {
+      renderResult.rerender(
+        <SizedWebView
+          baseStyles={{ preset: 'minimal', body: { padding: '16px' } }}
+          source={{ html: '<p>Tuned</p>' }}
+        />
+      );
+    });
+
+    expect(
+      capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+    ).toContain('"baseStyles":{"preset":"minimal","body":{"padding":"16px"}}');
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  it('reports every bridge measurement through onMeasure', () => {
+    const onMeasure = jest.fn();
+
+    const renderResult = render(
+      <SizedWebView onMeasure={onMeasure} source={{ html: '<p>Hi</p>' }} />
+    );
+
+    const webViewProps = capturedWebViewProps.at(-1) ?? {};
+    const handler = webViewProps.onMessage as (evt: unknown) => void;
+    const instanceId = readInstanceId(webViewProps);
+    const details = { wrapper: 180, body: 200, html: 200 };
+
+    act(() => {
+      handler(
+        createBridgeEvent(instanceId, {
+          height: 200,
+          reason: 'initial',
+          details,
+        })
+      );
+      handler(createBridgeEvent(instanceId, { height: 'broken' }));
+      handler(createBridgeEvent(instanceId, { height: 180 }));
+    });
+
+    expect(onMeasure.mock.calls).toEqual([
+      [
+        {
+          height: 200,
+          previousHeight: 0,
+          delta: 200,
+          reason: 'initial',
+          details,
+        },
+      ],
+      [
+        {
+          height: 180,
+          previousHeight: 200,
+          delta: -20,
+          reason: 'unknown',
+          details: {},
+        },
+      ],
+    ]);
+
+    act(() => {
+      renderResult.rerender(<SizedWebView source={{ html: '<p>Hi</p>' }} />);
+    });
+
+    act(() => {
+      (capturedWebViewProps.at(-1)!.onMessage as (evt: unknown) => void)(
+        createBridgeEvent(instanceId, { height: 220 })
+      );
+    });
+
+    expect(onMeasure).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      renderResult.unmount();
+    });
+  });
+
+  describe('content readiness', () => {
+    const source = { html: '<p>Ready</p>' };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('reports ready heights and resolves waiters', async () => {
+      const onContentReady = jest.fn();
+      const { ref, renderResult, webViewProps, send } = renderWithBridge({
+        source,
+        onContentReady,
+        readyQuietWindow: 500,
+      });
+
+      expect(webViewProps.injectedJavaScriptBeforeContentLoaded).toContain(
+        '"readyQuietWindow":500'
+      );
+
+      const pending = ref.current!.waitForStableHeight();
+
+      send('ready', { height: 'tall' });
+      send('ready', { height: 411.2 });
+
+      await expect(pending).resolves.toBe(412);
+      await expect(ref.current!.waitForStableHeight()).resolves.toBe(412);
+      expect(onContentReady).toHaveBeenCalledTimes(1);
+      expect(onContentReady).toHaveBeenCalledWith(412);
+
+      send('height', { height: 500 });
+
+      const afterChange = ref.current!.waitForStableHeight();
+
+      send('ready', { height: 500 });
+
+      await expect(afterChange).resolves.toBe(500);
+
+      act(() => {
+        (webViewProps.onLoadStart as (evt: unknown) => void)({
+          nativeEvent: {},
+        });
+      });
+
+      const afterReload = ref.current!.waitForStableHeight();
+
+      act(() => {
+        renderResult.unmount();
+      });
+
+      await expect(afterReload).rejects.toThrow(
+        'SizedWebView unmounted before its content became stable'
+      );
+    });
+
+    it('rejects waiters whose timeout elapses first', async () => {
+      jest.useFakeTimers();
+      const { ref, renderResult, send } = renderWithBridge({ source });
+
+      const timedOut = ref.current!.waitForStableHeight({ timeout: 1000 });
+      const patient = ref.current!.waitForStableHeight({ timeout: 5000 });
+
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+
+      await expect(timedOut).rejects.toThrow(
+        'Content did not become stable within 1000ms'
+      );
+
+      send('ready', { height: 300 });
+
+      await expect(patient).resolves.toBe(300);
+      expect(jest.getTimerCount()).toBe(0);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  describe('anchor navigation', () => {
+    const source = { html: '<a href="#notes">Notes</a>' };
+
+    it('only intercepts anchors when someone handles them', () => {
+      const { renderResult, webViewProps } = renderWithBridge({ source });
+
+      expect(webViewProps.injectedJavaScriptBeforeContentLoaded).not.toContain(
+        '"anchorNavigation"'
+      );
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView onAnchorNavigate={jest.fn()} source={{ html: '' }} />
+        );
+      });
+
+      expect(
+        capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+      ).toContain('"anchorNavigation":true');
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('reports anchor offsets and scrolls the parent ScrollView', () => {
+      const onAnchorNavigate = jest.fn();
+      const { scrollViewRef, content, scrollTo } = renderScrollView();
+      const { renderResult, send } = renderWithBridge({
+        source,
+        onAnchorNavigate,
+        parentScrollViewRef: scrollViewRef,
+      });
+      const measureLayout = stubContainerOffset(renderResult, 120);
+      const navigate = (payload: Record<string, unknown>) =>
+        send('anchor', payload);
+
+      navigate({ offsetY: 'far' });
+      expect(onAnchorNavigate).not.toHaveBeenCalled();
+
+      navigate({ offsetY: 300, hash: '#notes' });
+
+      expect(onAnchorNavigate).toHaveBeenCalledWith(300);
+      expect(measureLayout).toHaveBeenCalledWith(content, expect.any(Function));
+      expect(scrollTo).toHaveBeenCalledWith({
+        y: 420,
+        animated: true,
+      });
+
+      navigate({ offsetY: -500 });
+
+      expect(scrollTo).toHaveBeenLastCalledWith({
+        y: 0,
+        animated: true,
+      });
+
+      act(() => {
+        renderResult.unmount();
+      });
+
+      navigate({ offsetY: 300 });
+
+      expect(scrollTo).toHaveBeenCalledTimes(2);
+    });
+
+    it('skips scrolling until the parent ScrollView is mounted', () => {
+      const parentScrollViewRef = createRef<ComponentRef<typeof ScrollView>>();
+      const { renderResult, send } = renderWithBridge({
+        source,
+        parentScrollViewRef,
+      });
+      const measureLayout = stubContainerOffset(renderResult, 120);
+
+      send('anchor', { offsetY: 100 });
+
+      const { scrollViewRef, getInnerViewRef } = renderScrollView();
+      getInnerViewRef.mockReturnValue(null);
+      parentScrollViewRef.current = scrollViewRef.current;
+      send('anchor', { offsetY: 100 });
+
+      expect(measureLayout).not.toHaveBeenCalled();
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  describe('element queries', () => {
+    const rect = { x: 16, y: 640, width: 288, height: 120 };
+    const source = { html: '<p id="comments">Comments</p>' };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('round-trips element rects through the bridge', async () => {
+      const { ref, renderResult, send } = renderWithBridge({ source });
+
+      const found = ref.current!.getElementRect('#comments');
+      const missing = ref.current!.getElementRect('#missing');
+
+      expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+        [createBridgeCommandScript('getElementRect', '1', '#comments')],
+        [createBridgeCommandScript('getElementRect', '2', '#missing')],
+      ]);
+
+      send('elementRect', { requestId: 1, rect });
+      send('elementRect', { requestId: '7', rect });
+      send('elementRect', { requestId: '1', rect });
+      send('elementRect', { requestId: '1', rect: null });
+      send('elementRect', { requestId: '2', rect: { ...rect, y: 'far' } });
+
+      await expect(found).resolves.toEqual(rect);
+      await expect(missing).resolves.toBeNull();
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('rejects queries the bridge never answers', async () => {
+      // Animated detaches its nodes in a microtask on unmount.
+      jest.useFakeTimers({ doNotFake: ['queueMicrotask'] });
+      const { ref, renderResult } = renderWithBridge({ source });
+
+      const timedOut = ref.current!.getElementRect('#comments');
+
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+
+      await expect(timedOut).rejects.toThrow(
+        'The bridge did not answer "getElementRect" within 3000ms'
+      );
+
+      const orphaned = ref.current!.getElementRect('#comments');
+
+      act(() => {
+        renderResult.unmount();
+      });
+
+      await expect(orphaned).rejects.toThrow(
+        'SizedWebView unmounted before the bridge answered'
+      );
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('scrolls the parent ScrollView to matched elements', async () => {
+      const { scrollViewRef, scrollTo } = renderScrollView();
+      const { ref, renderResult, send } = renderWithBridge({
+        source,
+        parentScrollViewRef: scrollViewRef,
+      });
+      stubContainerOffset(renderResult, 80);
+
+      const scrolled = ref.current!.scrollParentToElement('#comments', {
+        offset: 56,
+        animated: false,
+      });
+      send('elementRect', { requestId: '1', rect });
+
+      await expect(scrolled).resolves.toEqual(rect);
+      expect(scrollTo).toHaveBeenCalledWith({
+        y: 664,
+        animated: false,
+      });
+
+      const defaults = ref.current!.scrollParentToElement('#comments');
+      send('elementRect', { requestId: '2', rect });
+
+      await expect(defaults).resolves.toEqual(rect);
+      expect(scrollTo).toHaveBeenLastCalledWith({
+        y: 720,
+        animated: true,
+      });
+
+      const missing = ref.current!.scrollParentToElement('#missing');
+      send('elementRect', { requestId: '3', rect: null });
+
+      await expect(missing).resolves.toBeNull();
+      expect(scrollTo).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  describe('find in page', () => {
+    const source = { html: '<p>Terms and more terms</p>' };
+
+    it('highlights matches and steps through them', async () => {
+      const { ref, renderResult, send } = renderWithBridge({ source });
+
+      const found = ref.current!.find('terms', { wholeWord: true });
+      send('findResult', {
+        requestId: '1',
+        query: 'terms',
+        offsets: [12, 'far', 480],
+        activeIndex: 0,
+      });
+
+      await expect(found).resolves.toEqual({
+        query: 'terms',
+        count: 2,
+        offsets: [12, 480],
+        activeIndex: 0,
+      });
+
+      const next = ref.current!.findNext();
+      send('findResult', {
+        requestId: '2',
+        query: 'terms',
+        offsets: [12, 480],
+        activeIndex: 1,
+      });
+      await expect(next).resolves.toMatchObject({ activeIndex: 1 });
+
+      const previous = ref.current!.findPrevious();
+      send('findResult', { requestId: '3', offsets: 'none', activeIndex: 4 });
+      await expect(previous).resolves.toEqual({
+        query: '',
+        count: 0,
+        offsets: [],
+        activeIndex: -1,
+      });
+
+      act(() => {
+        ref.current!.clearFind();
+      });
+
+      expect(mockWebViewMethods.injectJavaScript.mock.calls).toEqual([
+        [createBridgeCommandScript('find', '1', 'terms', false, true)],
+        [createBridgeCommandScript('findStep', '2', 1)],
+        [createBridgeCommandScript('findStep', '3', -1)],
+        [createBridgeCommandScript('clearFind')],
+      ]);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('scrolls the parent ScrollView to the active match', async () => {
+      const { scrollViewRef, scrollTo } = renderScrollView();
+      const { ref, renderResult, send } = renderWithBridge({
+        source,
+        parentScrollViewRef: scrollViewRef,
+      });
+      stubContainerOffset(renderResult, 100);
+
+      const found = ref.current!.find('Terms', {
+        caseSensitive: true,
+        offset: 40,
+      });
+      send('findResult', {
+        requestId: '1',
+        query: 'Terms',
+        offsets: [12],
+        activeIndex: 0,
+      });
+      await found;
+
+      expect(mockWebViewMethods.injectJavaScript).toHaveBeenCalledWith(
+        createBridgeCommandScript('find', '1', 'Terms', true, false)
+      );
+      expect(scrollTo).toHaveBeenCalledWith({
+        y: 72,
+        animated: true,
+      });
+
+      const next = ref.current!.findNext();
+      send('findResult', {
+        requestId: '2',
+        query: 'Terms',
+        offsets: [12],
+        activeIndex: 0,
+      });
+      await next;
+
+      expect(scrollTo).toHaveBeenCalledTimes(2);
+
+      const cleared = ref.current!.find('');
+      send('findResult', {
+        requestId: '3',
+        query: '',
+        offsets: [],
+        activeIndex: -1,
+      });
+
+      await expect(cleared).resolves.toMatchObject({ count: 0 });
+      expect(scrollTo).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  describe('links', () => {
+    const openURL = Linking.openURL as jest.Mock;
+
+    const source = { html: '<a href="https://x.dev">X</a>' };
+
+    beforeEach(() => {
+      openURL.mockReset();
+      openURL.mockResolvedValue(undefined);
+    });
+
+    it('opens links of HTML content externally by default', async () => {
+      const { renderResult, webViewProps, send } = renderWithBridge({ source });
+
+      expect(webViewProps.injectedJavaScriptBeforeContentLoaded).toContain(
+        '"interceptLinks":true'
+      );
+
+      send('link', { url: '' });
+      send('link', { url: 'https://x.dev/', target: '_blank', text: 'X' });
+
+      expect(openURL.mock.calls).toEqual([['https://x.dev/']]);
+
+      openURL.mockRejectedValueOnce(new Error('Unsupported URL'));
+      send('link', { url: 'tel:+100' });
+
+      await Promise.resolve();
+      expect(openURL).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('blocks external links to other apps outside permissive mode', () => {
+      const onLinkPress = jest.fn();
+      const onBlockedNavigation = jest.fn();
+      const { renderResult, send } = renderWithBridge({
+        source,
+        linkBehavior: 'external',
+        onLinkPress,
+        onBlockedNavigation,
+      });
+
+      // A page script can click a link or post the message itself.
+      send('link', { url: 'myapp://pay?to=evil' });
+      send('link', { url: 'intent://scan' });
+      send('link', { url: 'mailto:team@x.dev' });
+
+      expect(openURL.mock.calls).toEqual([['mailto:team@x.dev']]);
+      expect(onLinkPress).toHaveBeenCalledTimes(1);
+      expect(onBlockedNavigation.mock.calls).toEqual([
+        [{ url: 'myapp://pay?to=evil', reason: 'scheme' }],
+        [{ url: 'intent://scan', reason: 'scheme' }],
+      ]);
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            securityMode="permissive"
+            linkBehavior="external"
+            source={source}
+          />
+        );
+      });
+
+      send('link', { url: 'myapp://pay?to=evil' });
+
+      expect(openURL).toHaveBeenLastCalledWith('myapp://pay?to=evil');
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('keeps remote pages inline unless told otherwise', () => {
+      const onShouldStartLoadWithRequest = jest.fn(() => true);
+      const { renderResult, webViewProps } = renderWithBridge({
+        source: { uri: 'https://example.com' },
+        securityMode: 'permissive',
+        onShouldStartLoadWithRequest,
+      });
+
+      expect(webViewProps.injectedJavaScriptBeforeContentLoaded).not.toContain(
+        '"interceptLinks"'
+      );
+      expect(webViewProps.onShouldStartLoadWithRequest).toBe(
+        onShouldStartLoadWithRequest
+      );
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            linkBehavior="inline"
+            source={{ html: '<a href="https://x.dev">X</a>' }}
+          />
+        );
+      });
+
+      expect(
+        capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+      ).not.toContain('"interceptLinks"');
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('hands links to onLinkPress without navigating', () => {
+      const onLinkPress = jest.fn();
+      const { renderResult, send } = renderWithBridge({
+        source: { uri: 'https://example.com' },
+        onLinkPress,
+      });
+
+      send('link', { url: 'https://x.dev/', target: '_blank', text: 'X' });
+      send('link', { url: 'https://x.dev/popup', target: 7, text: null });
+
+      expect(onLinkPress.mock.calls).toEqual([
+        [{ url: 'https://x.dev/', target: '_blank', text: 'X' }],
+        [{ url: 'https://x.dev/popup', target: null, text: '' }],
+      ]);
+      expect(openURL).not.toHaveBeenCalled();
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('intercepts navigations the loaded page starts by itself', () => {
+      const onLinkPress = jest.fn();
+      const onShouldStartLoadWithRequest = jest.fn(
+        ({ url }: { url: string }) => !url.includes('blocked')
+      );
+      const { renderResult, shouldStart, loadEnd } = renderWithBridge({
+        source,
+        securityMode: 'standard',
+        linkBehavior: 'callback',
+        onLinkPress,
+        onShouldStartLoadWithRequest,
+      });
+
+      expect(shouldStart('about:blank')).toBe(true);
+
+      loadEnd('about:blank');
+
+      expect(shouldStart('about:blank#terms')).toBe(true);
+      expect(shouldStart('https://ads.dev/frame', false)).toBe(true);
+      expect(shouldStart('https://x.dev/blocked')).toBe(false);
+      expect(onLinkPress).not.toHaveBeenCalled();
+
+      expect(shouldStart('https://x.dev/next')).toBe(false);
+      expect(onLinkPress).toHaveBeenCalledWith({
+        url: 'https://x.dev/next',
+        target: null,
+        text: '',
+      });
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            linkBehavior="callback"
+            onLinkPress={onLinkPress}
+            source={{ uri: 'https://x.dev/next' }}
+          />
+        );
+      });
+
+      expect(shouldStart('https://x.dev/next')).toBe(true);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  describe('security', () => {
+    const untrustedSource = { html: '<p>Untrusted</p>' };
+
+    const renderSecured = (
+      props: Partial<ComponentProps<typeof SizedWebView>> = {}
+    ) => {
+      const onBlockedNavigation = jest.fn();
+
+      return {
+        ...renderWithBridge({
+          source: untrustedSource,
+          onBlockedNavigation,
+          ...props,
+        }),
+        onBlockedNavigation,
+      };
+    };
+
+    it('confines inline HTML to about: and data: origins by default', () => {
+      const {
+        renderResult,
+        webViewProps,
+        shouldStart,
+        loadEnd,
+        onBlockedNavigation,
+      } = renderSecured();
+
+      expect(webViewProps.originWhitelist).toEqual(['*']);
+      expect(webViewProps.injectedJavaScriptBeforeContentLoaded).toContain(
+        '"blockWindowOpen":true'
+      );
+
+      expect(shouldStart('about:blank')).toBe(true);
+      expect(shouldStart('https://tracker.dev/pixel', false)).toBe(false);
+
+      loadEnd('about:blank');
+
+      expect(shouldStart('data:text/html,<p>frame</p>', false)).toBe(true);
+      expect(shouldStart('about:srcdoc')).toBe(false);
+      expect(onBlockedNavigation.mock.calls).toEqual([
+        [{ url: 'https://tracker.dev/pixel', reason: 'origin' }],
+        [{ url: 'about:srcdoc', reason: 'navigation' }],
+      ]);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('reports window.open() calls blocked by the bridge', () => {
+      const { renderResult, send, onBlockedNavigation } = renderSecured();
+      const post = (payload: Record<string, unknown>) =>
+        send('blockedNavigation', payload);
+
+      post({ url: 7 });
+      post({ url: 'https://popup.dev/', reason: 'window.open' });
+
+      expect(onBlockedNavigation.mock.calls).toEqual([
+        [{ url: 'https://popup.dev/', reason: 'window.open' }],
+      ]);
+
+      act(() => {
+        renderResult.rerender(<SizedWebView source={{ html: '<p>Hi</p>' }} />);
+      });
+
+      post({ url: 'https://popup.dev/' });
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('admits the base URL origin and custom whitelists', () => {
+      const { renderResult, shouldStart, onBlockedNavigation } = renderSecured({
+        source: { html: '<p>Hi</p>', baseUrl: 'https://cms.dev/posts/1' },
+      });
+
+      expect(shouldStart('https://cms.dev/posts/1')).toBe(true);
+      expect(shouldStart('https://cms.dev.evil.net/', false)).toBe(false);
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            source={{ html: '<p>Hi</p>' }}
+            securityMode="standard"
+            originWhitelist={['https://*.example.com']}
+            onBlockedNavigation={onBlockedNavigation}
+          />
+        );
+      });
+
+      expect(shouldStart('https://cdn.example.com/a', false)).toBe(true);
+      expect(shouldStart('https://x.dev/', false)).toBe(false);
+      expect(
+        capturedWebViewProps.at(-1)!.injectedJavaScriptBeforeContentLoaded
+      ).not.toContain('"blockWindowOpen"');
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('loads inline HTML under a custom whitelist', () => {
+      const { renderResult, shouldStart, loadEnd, onBlockedNavigation } =
+        renderSecured({ originWhitelist: ['https://*.example.com'] });
+
+      expect(shouldStart('about:blank')).toBe(true);
+
+      loadEnd('about:blank');
+
+      expect(shouldStart('https://cdn.example.com/a', false)).toBe(true);
+      expect(shouldStart('data:text/html,<p>frame</p>', false)).toBe(false);
+      expect(onBlockedNavigation).toHaveBeenCalledWith({
+        url: 'data:text/html,<p>frame</p>',
+        reason: 'origin',
+      });
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            source={{ html: '<p>Hi</p>', baseUrl: 'https://cms.dev/' }}
+            originWhitelist={['https://']}
+          />
+        );
+      });
+
+      expect(shouldStart('https://cms.dev/')).toBe(true);
+      expect(shouldStart('https://cdn.dev/a.png', false)).toBe(true);
+      expect(shouldStart('http://cdn.dev/a.png', false)).toBe(false);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('loads web origins in standard mode for remote pages', () => {
+      const { renderResult, loadEnd, shouldStart, onBlockedNavigation } =
+        renderSecured({ source: { uri: 'https://example.com' } });
+
+      expect(shouldStart('https://example.com')).toBe(true);
+
+      loadEnd('https://example.com/');
+
+      expect(shouldStart('https://example.com/next')).toBe(true);
+      expect(shouldStart('intent://scan')).toBe(false);
+      expect(onBlockedNavigation).toHaveBeenCalledWith({
+        url: 'intent://scan',
+        reason: 'origin',
+      });
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('sanitizes inline HTML before injecting the policy', () => {
+      const { renderResult } = renderSecured({
+        source: { html: '<p onclick="x()">Hi<script>x()</script></p>' },
+        sanitize: true,
+        contentSecurityPolicy: 'img-src https:',
+      });
+
+      expect(capturedWebViewProps.at(-1)!.source).toEqual({
+        html: '<meta http-equiv="Content-Security-Policy" content="img-src https:"><p>Hi</p>',
+      });
+
+      const source = { html: '<a href="ftp://x.dev">X</a>' };
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            source={source}
+            sanitize={{ allowedTags: ['a'], allowedSchemes: ['ftp'] }}
+          />
+        );
+      });
+
+      expect(capturedWebViewProps.at(-1)!.source).toBe(source);
+
+      act(() => {
+        renderResult.rerender(<SizedWebView source={source} sanitize />);
+      });
+
+      expect(capturedWebViewProps.at(-1)!.source).toEqual({
+        html: '<a>X</a>',
+      });
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('injects a Content Security Policy into inline HTML', () => {
+      const { renderResult } = renderSecured({ contentSecurityPolicy: true });
+
+      expect(
+        (capturedWebViewProps.at(-1)!.source as { html: string }).html
+      ).toBe(
+        `<meta http-equiv="Content-Security-Policy" content="${DEFAULT_CONTENT_SECURITY_POLICY}"><p>Untrusted</p>`
+      );
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            source={{ html: '<p>Untrusted</p>' }}
+            contentSecurityPolicy="img-src https:"
+          />
+        );
+      });
+
+      expect(capturedWebViewProps.at(-1)!.source).toEqual({
+        html: '<meta http-equiv="Content-Security-Policy" content="img-src https:"><p>Untrusted</p>',
+      });
+
+      const source = { uri: 'https://example.com' };
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView source={source} contentSecurityPolicy />
+        );
+      });
+
+      expect(capturedWebViewProps.at(-1)!.source).toBe(source);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
+
+  describe('placeholder', () => {
+    const createCompositeAnimation = () => ({
+      start: jest.fn(),
+      stop: jest.fn(),
+      reset: jest.fn(),
+    });
+
+    const mockMeasured = (isMeasured: boolean) => {
+      const { useAutoHeight, __setHeightFromPayload, __setWidthFromPayload } =
+        jest.requireMock('../hooks/useAutoHeight');
+      (useAutoHeight as jest.Mock).mockReturnValue({
+        height: 240,
+        setHeightFromPayload: __setHeightFromPayload,
+        width: 320,
+        setWidthFromPayload: __setWidthFromPayload,
+        isOverflowing: false,
+        isMeasured,
+      });
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('pulses the shimmer placeholder until the content is measured', () => {
+      const pulse = createCompositeAnimation();
+      const loop = jest.spyOn(Animated, 'loop').mockReturnValue(pulse);
+      const fade = createCompositeAnimation();
+      jest.spyOn(Animated, 'timing').mockReturnValue(fade);
+      mockMeasured(false);
+
+      const renderShimmer = () => <PlaceholderShimmer />;
+
+      const renderResult = render(
+        <SizedWebView
+          renderPlaceholder={renderShimmer}
+          source={{ html: '<p>Loading</p>' }}
+        />
+      );
+
+      expect(renderResult.UNSAFE_getByType(PlaceholderShimmer)).toBeTruthy();
+      expect(loop).toHaveBeenCalledTimes(1);
+      expect(pulse.start).toHaveBeenCalledTimes(1);
+      expect(fade.start).not.toHaveBeenCalled();
+
+      mockMeasured(true);
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            renderPlaceholder={renderShimmer}
+            source={{ html: '<p>Loading</p>' }}
+          />
+        );
+      });
+
+      expect(Animated.timing).toHaveBeenLastCalledWith(
+        expect.any(Animated.Value),
+        expect.objectContaining({
+          toValue: 0,
+          duration: 200,
+          useNativeDriver: true,
+        })
+      );
+      expect(fade.start).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        fade.start.mock.calls[0][0]({ finished: true });
+      });
+
+      expect(renderResult.UNSAFE_queryByType(PlaceholderShimmer)).toBeNull();
+      expect(pulse.stop).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('renders custom placeholders and keeps them until the fade finishes', () => {
+      const fade = createCompositeAnimation();
+      jest.spyOn(Animated, 'timing').mockReturnValue(fade);
+      mockMeasured(false);
+
+      const renderPlaceholder = () => <Text testID="skeleton">Loading</Text>;
+
+      const renderResult = render(
+        <SizedWebView
+          renderPlaceholder={renderPlaceholder}
+          placeholderFadeDuration={450}
+          source={{ uri: 'https://example.com' }}
+        />
+      );
+
+      expect(renderResult.getByTestId('skeleton')).toBeTruthy();
+      expect(renderResult.UNSAFE_queryByType(PlaceholderShimmer)).toBeNull();
+
+      mockMeasured(true);
+
+      act(() => {
+        renderResult.rerender(
+          <SizedWebView
+            renderPlaceholder={renderPlaceholder}
+            placeholderFadeDuration={450}
+            source={{ uri: 'https://example.com' }}
+          />
+        );
+      });
+
+      expect(Animated.timing).toHaveBeenLastCalledWith(
+        expect.any(Animated.Value),
+        expect.objectContaining({ duration: 450 })
+      );
+
+      act(() => {
+        fade.start.mock.calls[0][0]({ finished: false });
+      });
+
+      expect(renderResult.getByTestId('skeleton')).toBeTruthy();
+
+      act(() => {
+        renderResult.unmount();
+      });
+
+      expect(fade.stop).toHaveBeenCalledTimes(1);
+    });
+
+    it('overlays the placeholder on animated containers too', () => {
+      const { useAutoHeight, __setHeightFromPayload, __setWidthFromPayload } =
+        jest.requireMock('../hooks/useAutoHeight');
+      (useAutoHeight as jest.Mock).mockReturnValue({
+        height: 240,
+        setHeightFromPayload: __setHeightFromPayload,
+        width: 320,
+        setWidthFromPayload: __setWidthFromPayload,
+        isOverflowing: false,
+        isMeasured: false,
+        animatedHeight: new Animated.Value(240),
+      });
+
+      const renderResult = render(
+        <SizedWebView
+          animateHeight
+          renderPlaceholder={() => <Text testID="skeleton">Loading</Text>}
+          source={{ html: '<p>Animated</p>' }}
+        />
+      );
+
+      expect(renderResult.getByTestId('skeleton')).toBeTruthy();
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('lets the shimmer pulse be styled and timed', () => {
+      const timing = jest
+        .spyOn(Animated, 'timing')
+        .mockReturnValue(createCompositeAnimation());
+
+      const renderResult = render(
+        <PlaceholderShimmer
+          pulseDuration={500}
+          style={{ backgroundColor: 'black' }}
+        />
+      );
+
+      expect(timing).toHaveBeenCalledWith(
+        expect.any(Animated.Value),
+        expect.objectContaining({ toValue: 0.4, duration: 500 })
+      );
+      expect(
+        renderResult.UNSAFE_getByType(Animated.View).props.style
+      ).toContainEqual({ backgroundColor: 'black' });
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+
+    it('shows no placeholder by default', () => {
+      mockMeasured(false);
+
+      const renderResult = render(
+        <SizedWebView source={{ html: '<p>Bare</p>' }} />
+      );
+
+      expect(renderResult.UNSAFE_queryByType(PlaceholderShimmer)).toBeNull();
+      expect(renderResult.UNSAFE_getByType(Animated.View).props.style).toEqual([
+        { height: 240 },
+        undefined,
+      ]);
+
+      act(() => {
+        renderResult.unmount();
+      });
+    });
+  });
 });
@@ -0,0 +1,45 @@
+import {
+  DEFAULT_CONTENT_SECURITY_POLICY,
+  injectContentSecurityPolicy,
+} from '../utils/injectContentSecurityPolicy';
+
+const meta = (policy: string) =>
+  `<meta http-equiv="Content-Security-Policy" content="${policy}">`;
+
+describe('injectContentSecurityPolicy', () => {
+  it('prepends the default policy to fragments', () => {
+    expect(injectContentSecurityPolicy('<p>Hi</p>')).toBe(
+      `${meta(DEFAULT_CONTENT_SECURITY_POLICY)}<p>Hi</p>`
+    );
+    expect(DEFAULT_CONTENT_SECURITY_POLICY).toContain("default-src 'none'");
+  });
+
+  it('inserts the tag right after the opening head', () => {
+    expect(
+      injectContentSecurityPolicy(
+        '<!DOCTYPE html><html><HEAD lang="en"><title>T</title></HEAD></html>',
+        "img-src 'self'"
+      )
+    ).toBe(
+      `<!DOCTYPE html><html><HEAD lang="en">${meta("img-src 'self'")}<title>T</title></HEAD></html>`
+    );
+  });
+
+  it('keeps the doctype first when the document has no head', () => {
+    expect(
+      injectContentSecurityPolicy('  <!doctype html><p>Hi</p>', 'img-src *')
+    ).toBe(`  <!doctype html>${meta('img-src *')}<p>Hi</p>`);
+  });
+
+  it('does not mistake other tags for the head', () => {
+    expect(
+      injectContentSecurityPolicy('<header>Top</header>', 'img-src *')
+    ).toBe(`${meta('img-src *')}<header>Top</header>`);
+  });
+
+  it('escapes the policy for the attribute', () => {
+    expect(injectContentSecurityPolicy('', 'a "b" & c')).toBe(
+      meta('a &quot;b&quot; &amp; c')
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  BRIDGE_MESSAGE_NAMESPACE,
+  BRIDGE_PROTOCOL_VERSION,
+} from '../constants/bridgeProtocol';
+import { parseBridgeMessage } from '../utils/parseBridgeMessage';
+
+const envelope = {
+  namespace: BRIDGE_MESSAGE_NAMESPACE,
+  version: BRIDGE_PROTOCOL_VERSION,
+  type: 'height',
+  instanceId: 'instance-1',
+  payload: { height: 320 },
+};
+
+describe('parseBridgeMessage', () => {
+  it('parses a well-formed bridge envelope', () => {
+    expect(parseBridgeMessage(JSON.stringify(envelope))).toEqual(envelope);
+  });
+
+  it('ignores non-string and non-object payloads', () => {
+    expect(parseBridgeMessage(42)).toBeUndefined();
+    expect(parseBridgeMessage('42')).toBeUndefined();
+    expect(parseBridgeMessage(`"${BRIDGE_MESSAGE_NAMESPACE}"`)).toBeUndefined();
+  });
+
+  it('ignores JSON posted by the page itself', () => {
+    expect(
+      parseBridgeMessage(JSON.stringify({ type: 'height', height: 42 }))
+    ).toBeUndefined();
+  });
+
+  it('ignores malformed JSON that mentions the namespace', () => {
+    expect(
+      parseBridgeMessage(`{"namespace":"${BRIDGE_MESSAGE_NAMESPACE}"`)
+    ).toBeUndefined();
+    expect(
+      parseBridgeMessage(`{"a":1} ${BRIDGE_MESSAGE_NAMESPACE}`)
+    ).toBeUndefined();
+  });
+
+  it.each([
+    ['namespace', 'other'],
+    ['version', '1'],
+    ['type', 7],
+    ['instanceId', null],
+    ['payload', null],
+    ['payload', 'height'],
+  ])('rejects envelopes with an invalid %s', (key, value) => {
+    expect(
+      parseBridgeMessage(JSON.stringify({ ...envelope, [key]: value }))
+    ).toBeUndefined();
+  });
+});
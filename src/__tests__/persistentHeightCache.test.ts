@@ -0,0 +1,270 @@
+import {
+  createPersistentHeightCache,
+  type HeightStorageAdapter,
+} from '../utils/persistentHeightCache';
+
+const STORAGE_KEY = '@react-native-sized-webview/heights';
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const data = { ...initial };
+  const storage = {
+    get: jest.fn(async (key: string) => data[key] ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      data[key] = value;
+    }),
+    remove: jest.fn(async (key: string) => {
+      delete data[key];
+    }),
+  };
+  return { data, storage };
+};
+
+const persisted = (
+  entries: Array<[string, number, number]>,
+  version: string | number = 1
+) => JSON.stringify({ version, entries });
+
+describe('createPersistentHeightCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('hydrates persisted entries once and serves them synchronously', async () => {
+    const { storage } = createStorage({
+      [STORAGE_KEY]: persisted([
+        ['a', 120, now],
+        ['b', 340, now],
+      ]),
+    });
+    const cache = createPersistentHeightCache({ storage });
+
+    expect(cache.get('a')).toBeUndefined();
+
+    const first = cache.hydrate();
+    expect(cache.hydrate()).toBe(first);
+    await first;
+
+    expect(storage.get).toHaveBeenCalledTimes(1);
+    expect(cache.get('a')).toBe(120);
+    expect(cache.get('b')).toBe(340);
+    expect(cache.size).toBe(2);
+  });
+
+  it('writes through to the storage, coalescing writes', async () => {
+    const { data, storage } = createStorage();
+    const cache = createPersistentHeightCache({
+      storage,
+      storageKey: 'heights',
+      version: 'v2',
+    });
+
+    await cache.hydrate();
+    await expect(cache.flush()).resolves.toBeUndefined();
+    expect(cache.size).toBe(0);
+    expect(storage.set).not.toHaveBeenCalled();
+
+    cache.set('a', 100);
+    cache.set('b', 200);
+    await cache.flush();
+
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(data.heights!)).toEqual({
+      version: 'v2',
+      entries: [
+        ['a', 100, now],
+        ['b', 200, now],
+      ],
+    });
+
+    cache.delete('missing');
+    cache.delete('a');
+    await cache.flush();
+
+    expect(storage.set).toHaveBeenCalledTimes(2);
+
+    cache.clear();
+    await cache.flush();
+
+    expect(storage.remove).toHaveBeenCalledWith('heights');
+    expect(data.heights).toBeUndefined();
+  });
+
+  it('saves changes made while a write is in flight', async () => {
+    const { data, storage } = createStorage();
+    const writes: Array<() => void> = [];
+    storage.set.mockImplementation(
+      (key, value) =>
+        new Promise<void>((resolve) => {
+          writes.push(() => {
+            data[key] = value;
+            resolve();
+          });
+        })
+    );
+    const cache = createPersistentHeightCache({ storage });
+
+    cache.set('a', 100);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(writes).toHaveLength(1);
+
+    cache.set('b', 200);
+    writes.shift()!();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(writes).toHaveLength(1);
+
+    writes.shift()!();
+    await cache.flush();
+
+    expect(storage.set).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(data[STORAGE_KEY]!).entries).toEqual([
+      ['a', 100, now],
+      ['b', 200, now],
+    ]);
+  });
+
+  it('discards entries persisted under another version', async () => {
+    const { storage } = createStorage({
+      [STORAGE_KEY]: persisted([['a', 120, now]], 1),
+    });
+    const cache = createPersistentHeightCache({ storage, version: 2 });
+
+    await cache.hydrate();
+    await cache.flush();
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(storage.remove).toHaveBeenCalledWith(STORAGE_KEY);
+  });
+
+  it('expires entries older than the ttl', async () => {
+    const { storage } = createStorage({
+      [STORAGE_KEY]: persisted([
+        ['stale', 120, now - 5_000],
+        ['fresh', 240, now - 500],
+      ]),
+    });
+    const cache = createPersistentHeightCache({ storage, ttl: 1_000 });
+
+    await cache.hydrate();
+
+    expect(cache.size).toBe(1);
+    expect(cache.get('fresh')).toBe(240);
+
+    now += 2_000;
+
+    expect(cache.get('fresh')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    const { storage } = createStorage({
+      [STORAGE_KEY]: persisted([
+        ['a', 1, now],
+        ['b', 2, now],
+        ['c', 3, now],
+      ]),
+    });
+    const cache = createPersistentHeightCache({ storage, maxEntries: 2 });
+
+    cache.set('live', 99);
+    await cache.hydrate();
+
+    expect(cache.get('live')).toBe(99);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('ignores malformed payloads and invalid entries', async () => {
+    const malformed = createStorage({ [STORAGE_KEY]: '{oops' });
+    const malformedCache = createPersistentHeightCache({
+      storage: malformed.storage,
+    });
+    await malformedCache.hydrate();
+    expect(malformedCache.size).toBe(0);
+
+    const shapeless = createStorage({ [STORAGE_KEY]: '{"version":1}' });
+    const shapelessCache = createPersistentHeightCache({
+      storage: shapeless.storage,
+    });
+    await shapelessCache.hydrate();
+    expect(shapelessCache.size).toBe(0);
+
+    const empty = createStorage({ [STORAGE_KEY]: 'null' });
+    const emptyCache = createPersistentHeightCache({ storage: empty.storage });
+    await emptyCache.hydrate();
+    expect(emptyCache.size).toBe(0);
+
+    const invalid = createStorage({
+      [STORAGE_KEY]: JSON.stringify({
+        version: 1,
+        entries: [
+          [1, 100, now],
+          ['nan', null, now],
+          ['negative', -1, now],
+          ['ok', 10, now],
+        ],
+      }),
+    });
+    const invalidCache = createPersistentHeightCache({
+      storage: invalid.storage,
+    });
+    await invalidCache.hydrate();
+    expect(invalidCache.size).toBe(1);
+    expect(invalidCache.get('ok')).toBe(10);
+  });
+
+  it('degrades to a memory cache when the storage fails', async () => {
+    const storage: HeightStorageAdapter = {
+      get: () => {
+        throw new Error('read failed');
+      },
+      set: () => Promise.reject(new Error('write failed')),
+      remove: jest.fn(),
+    };
+    const cache = createPersistentHeightCache({ storage });
+
+    await expect(cache.hydrate()).resolves.toBeUndefined();
+
+    cache.set('a', 10);
+    await expect(cache.flush()).resolves.toBeUndefined();
+    expect(cache.get('a')).toBe(10);
+  });
+
+  it('supports synchronous storages', async () => {
+    const values = new Map<string, string>([
+      [STORAGE_KEY, persisted([['a', 50, now]])],
+    ]);
+    const cache = createPersistentHeightCache({
+      storage: {
+        get: (key) => values.get(key),
+        set: (key, value) => {
+          values.set(key, value);
+        },
+        remove: (key) => {
+          values.delete(key);
+        },
+      },
+      maxEntries: 0,
+    });
+
+    await cache.hydrate();
+    expect(cache.get('a')).toBe(50);
+
+    cache.set('b', 60);
+    await cache.flush();
+
+    expect(JSON.parse(values.get(STORAGE_KEY)!).entries).toEqual([
+      ['b', 60, now],
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  DEFAULT_SANITIZE_HTML_OPTIONS,
+  sanitizeHtml,
+} from '../utils/sanitizeHtml';
+
+const withStyle = {
+  allowedTags: [...DEFAULT_SANITIZE_HTML_OPTIONS.allowedTags, 'style'],
+};
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed markup and normalises tags', () => {
+    expect(
+      sanitizeHtml(
+        "<!doctype html><P Class=lead data-id='7' hidden>Hi &amp; <B>bye</B><br/></P>"
+      )
+    ).toBe(
+      '<!DOCTYPE html><p class="lead" data-id="7">Hi &amp; <b>bye</b><br></p>'
+    );
+  });
+
+  it('drops scripts, comments and inline event handlers', () => {
+    expect(
+      sanitizeHtml(
+        '<p onclick="steal()" ONMOUSEOVER=steal()>Hi<script>document.write("<p>x</p>")</script><!-- note --><!--></p><?xml version="1.0"?>'
+      )
+    ).toBe('<p>Hi</p>');
+    expect(
+      sanitizeHtml('<script>a()</script>ok', {
+        allowedTags: ['script'],
+      })
+    ).toBe('ok');
+  });
+
+  it('drops unknown tags but keeps their text', () => {
+    expect(
+      sanitizeHtml('<custom-card><form action="/x">Text</form></custom-card>')
+    ).toBe('Text');
+  });
+
+  it('drops embedded content along with the element', () => {
+    expect(
+      sanitizeHtml(
+        '<svg><svg><script>a()</script></svg><p>in</p></svg><iframe src="https://x.dev"><p>fallback</p></iframe><embed src="x.swf"><p>out</p>'
+      )
+    ).toBe('<p>out</p>');
+    expect(sanitizeHtml('<p>a</p><noscript><p>b')).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p>a</p><plaintext><p>b</p>')).toBe('<p>a</p>');
+    expect(sanitizeHtml('<object><p>a</object>b')).toBe('b');
+    expect(sanitizeHtml('<script><script></script>b')).toBe('b');
+    expect(sanitizeHtml('<p>a</p><script>b</script ')).toBe('<p>a</p>');
+  });
+
+  it('drops style sheets by default', () => {
+    expect(sanitizeHtml('<style>body { display: none }</style><p>a</p>')).toBe(
+      '<p>a</p>'
+    );
+  });
+
+  it('reads raw text without parsing it as markup', () => {
+    expect(
+      sanitizeHtml(
+        '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>'
+      )
+    ).toBe('<img src="x">">');
+    expect(
+      sanitizeHtml('<style>p > a { color: red }</style><p>a</p>', withStyle)
+    ).toBe('<style>p > a { color: red }</style><p>a</p>');
+    expect(
+      sanitizeHtml('<title>a <b> c</title >', { allowedTags: ['title'] })
+    ).toBe('<title>a &lt;b> c</title>');
+    expect(sanitizeHtml('<style>p {}', withStyle)).toBe('<style>p {}</style>');
+  });
+
+  it('only keeps URLs with allowed schemes', () => {
+    expect(
+      sanitizeHtml(
+        [
+          '<a href="https://x.dev">a</a>',
+          '<a href="/relative?x=a:b">b</a>',
+          '<a href="javascript:alert(1)">c</a>',
+          '<a href=" JaVaScRiPt:alert(1)">d</a>',
+          '<a href="jav&#x61;script:alert(1)">e</a>',
+          '<a href="jav&#97;script&colon;alert(1)">f</a>',
+          '<a href="java&Tab;script:alert(1)">g</a>',
+          '<a href="javascript&#x10FFFFF;:alert(1)">h</a>',
+          '<a href="mailto:me@x.dev">i</a>',
+          '<a href="?q=a&nbsp;b">j</a>',
+          '<img src="data:image/png;base64,AAAA">',
+        ].join('')
+      )
+    ).toBe(
+      [
+        '<a href="https://x.dev">a</a>',
+        '<a href="/relative?x=a:b">b</a>',
+        '<a>c</a>',
+        '<a>d</a>',
+        '<a>e</a>',
+        '<a>f</a>',
+        '<a>g</a>',
+        '<a>h</a>',
+        '<a href="mailto:me@x.dev">i</a>',
+        '<a href="?q=a&nbsp;b">j</a>',
+        '<img>',
+      ].join('')
+    );
+  });
+
+  it('checks every srcset candidate', () => {
+    expect(
+      sanitizeHtml(
+        '<img srcset="a.png 1x, https://x.dev/b.png 2x"><img srcset="a.png 1x, javascript:b 2x">'
+      )
+    ).toBe('<img srcset="a.png 1x, https://x.dev/b.png 2x"><img>');
+  });
+
+  it('drops style attributes able to run script', () => {
+    expect(
+      sanitizeHtml(
+        '<p style="color: red">a</p><p style="width: expression(alert(1))">b</p><p style="background: url(&#106;avascript:x)">c</p>'
+      )
+    ).toBe('<p style="color: red">a</p><p>b</p><p>c</p>');
+  });
+
+  it('drops style sheets able to run script', () => {
+    expect(
+      sanitizeHtml(
+        [
+          '<style>q::before { content: "\\201C" } i { x: \\110000 }</style>',
+          '<style>p { width: expression(alert(1)) }</style>',
+          '<style>a { background: url(\\6a avascript:x) }</style>',
+          '<style>a { behavi\\or: url(x.htc) }</style>',
+          '<style>p { width: expr/**/ession(alert(1)) }</style>',
+          '<p>a</p>',
+        ].join(''),
+        withStyle
+      )
+    ).toBe(
+      '<style>q::before { content: "\\201C" } i { x: \\110000 }</style><p>a</p>'
+    );
+  });
+
+  it('re-quotes attribute values', () => {
+    expect(sanitizeHtml(`<p title='say "hi"' lang=en class>a</p>`)).toBe(
+      '<p title="say &quot;hi&quot;" lang="en" class>a</p>'
+    );
+  });
+
+  it('escapes stray angle brackets', () => {
+    expect(sanitizeHtml('1 < 2 <3 </ 4 <')).toBe('1 &lt; 2 &lt;3 &lt;/ 4 &lt;');
+  });
+
+  it('drops unterminated tags and comments', () => {
+    expect(sanitizeHtml('<p>a</p><p title="x>b</p>')).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p>a</p><p')).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p>a</p><!-- b')).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p>a</p><!doctype')).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p>a</p></p title=">"')).toBe('<p>a</p>');
+  });
+
+  it('drops end tags of void and disallowed elements', () => {
+    expect(sanitizeHtml('<p>a</br></form></p>')).toBe('<p>a</p>');
+  });
+
+  it('accepts custom allowlists', () => {
+    const options = {
+      ...DEFAULT_SANITIZE_HTML_OPTIONS,
+      allowedTags: [...DEFAULT_SANITIZE_HTML_OPTIONS.allowedTags, 'iframe'],
+      allowedAttributes: {
+        ...DEFAULT_SANITIZE_HTML_OPTIONS.allowedAttributes,
+        iframe: ['src'],
+      },
+      allowedSchemes: [...DEFAULT_SANITIZE_HTML_OPTIONS.allowedSchemes, 'data'],
+    };
+
+    expect(
+      sanitizeHtml(
+        '<iframe src="https://x.dev" srcdoc="<script>"><b>x</b></iframe><img src="data:image/png;base64,AAAA">',
+        options
+      )
+    ).toBe(
+      '<iframe src="https://x.dev">&lt;b>x&lt;/b></iframe><img src="data:image/png;base64,AAAA">'
+    );
+    expect(
+      sanitizeHtml('<p class="a" style="b">c</p>', { allowedAttributes: {} })
+    ).toBe('<p>c</p>');
+  });
+
+  it('keeps the defaults for undefined options', () => {
+    expect(
+      sanitizeHtml('<p class="a"><a href="javascript:x">b</a></p>', {
+        allowedTags: undefined,
+        allowedAttributes: undefined,
+        allowedSchemes: undefined,
+      })
+    ).toBe('<p class="a"><a>b</a></p>');
+  });
+});
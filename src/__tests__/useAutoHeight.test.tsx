@@ -1,6 +1,15 @@
 import { render, act } from '@testing-library/react-native';
+import { Animated, LayoutAnimation } from 'react-native';
 
-import { useAutoHeight } from '../hooks/useAutoHeight';
+import {
+  useAutoHeight,
+  type AutoHeightStatus,
+  type HeightAnimation,
+} from '../hooks/useAutoHeight';
+import {
+  createMemoryHeightCache,
+  type HeightCache,
+} from '../utils/heightCache';
 
 type FrameCallback = (timestamp: number) => void;
 
@@ -45,9 +54,39 @@ describe('useAutoHeight', () => {
 
   const Harness: React.FC<{
     minHeight: number;
+    maxHeight?: number;
     onHeightChange?: (height: number) => void;
-  }> = ({ minHeight, onHeightChange: handleHeightChange }) => {
-    latest = useAutoHeight({ minHeight, onHeightChange: handleHeightChange });
+    onContentSizeChange?: (width: number, height: number) => void;
+    onOverflowChange?: (isOverflowing: boolean) => void;
+    animateHeight?: boolean | HeightAnimation;
+    heightCache?: HeightCache;
+    cacheKey?: string;
+    onStatusChange?: (status: AutoHeightStatus) => void;
+    statusTimeout?: number;
+  }> = ({
+    minHeight,
+    maxHeight,
+    onHeightChange: handleHeightChange,
+    onContentSizeChange,
+    onOverflowChange,
+    animateHeight,
+    heightCache,
+    cacheKey,
+    onStatusChange,
+    statusTimeout,
+  }) => {
+    latest = useAutoHeight({
+      heightCache,
+      cacheKey,
+      onStatusChange,
+      statusTimeout,
+      minHeight,
+      maxHeight,
+      onHeightChange: handleHeightChange,
+      onContentSizeChange,
+      onOverflowChange,
+      animateHeight,
+    });
     return null;
   };
 
@@ -57,6 +96,7 @@ describe('useAutoHeight', () => {
   });
 
   afterEach(() => {
+    jest.restoreAllMocks();
     delete (globalThis as unknown as Record<string, unknown>)
       .requestAnimationFrame;
     delete (globalThis as unknown as Record<string, unknown>)
@@ -103,8 +143,53 @@ describe('useAutoHeight', () => {
       latest.setHeightFromPayload(initialHeight + 1);
     });
 
-    expect(requestAnimationFrameMock).not.toHaveBeenCalled();
+    // The first valid payload still flags the content as measured.
+    expect(requestAnimationFrameMock).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.isMeasured).toBe(true);
     expect(latest.height).toBe(initialHeight);
+    expect(onHeightChange).not.toHaveBeenCalled();
+
+    act(() => {
+      latest.setHeightFromPayload(initialHeight + 1);
+    });
+
+    expect(requestAnimationFrameMock).toHaveBeenCalledTimes(1);
+    unmount();
+  });
+
+  it('flags the content as measured once the first payload is committed', () => {
+    const onContentSizeChange = jest.fn();
+    const { unmount } = render(
+      <Harness minHeight={64} onContentSizeChange={onContentSizeChange} />
+    );
+
+    expect(latest.isMeasured).toBe(false);
+
+    act(() => {
+      latest.setHeightFromPayload(-1);
+    });
+
+    expect(latest.isMeasured).toBe(false);
+
+    act(() => {
+      latest.setHeightFromPayload(300);
+      latest.setHeightFromPayload(320);
+    });
+
+    expect(latest.isMeasured).toBe(false);
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.isMeasured).toBe(true);
+    expect(latest.height).toBe(320);
+    expect(onContentSizeChange).toHaveBeenCalledTimes(1);
     unmount();
   });
 
@@ -233,4 +318,820 @@ describe('useAutoHeight', () => {
       unmount();
     });
   });
+
+  it('tracks the reported width alongside the height in a single frame', () => {
+    const onContentSizeChange = jest.fn();
+    const { unmount } = render(
+      <Harness
+        minHeight={20}
+        onHeightChange={onHeightChange}
+        onContentSizeChange={onContentSizeChange}
+      />
+    );
+
+    expect(latest.width).toBeUndefined();
+
+    act(() => {
+      latest.setHeightFromPayload(48);
+      latest.setWidthFromPayload('119.2');
+    });
+
+    expect(requestAnimationFrameMock).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(48);
+    expect(latest.width).toBe(120);
+    expect(onContentSizeChange).toHaveBeenCalledTimes(1);
+    expect(onContentSizeChange).toHaveBeenLastCalledWith(120, 48);
+
+    act(() => {
+      latest.setWidthFromPayload(200);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.width).toBe(200);
+    expect(onHeightChange).toHaveBeenCalledTimes(1);
+    expect(onContentSizeChange).toHaveBeenLastCalledWith(200, 48);
+    unmount();
+  });
+
+  it('ignores invalid or insignificant width updates', () => {
+    const { unmount } = render(<Harness minHeight={20} />);
+
+    act(() => {
+      latest.setWidthFromPayload(undefined);
+      latest.setWidthFromPayload(-10);
+      latest.setWidthFromPayload(1);
+    });
+
+    expect(requestAnimationFrameMock).not.toHaveBeenCalled();
+    expect(latest.width).toBeUndefined();
+    unmount();
+  });
+
+  it('clamps the height to maxHeight and reports overflow transitions', () => {
+    const onOverflowChange = jest.fn();
+    const onContentSizeChange = jest.fn();
+    const { unmount } = render(
+      <Harness
+        minHeight={50}
+        maxHeight={400}
+        onHeightChange={onHeightChange}
+        onContentSizeChange={onContentSizeChange}
+        onOverflowChange={onOverflowChange}
+      />
+    );
+
+    act(() => {
+      latest.setHeightFromPayload(1200);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(400);
+    expect(latest.isOverflowing).toBe(true);
+    expect(onHeightChange).toHaveBeenLastCalledWith(400);
+    expect(onOverflowChange).toHaveBeenLastCalledWith(true);
+    expect(onContentSizeChange).toHaveBeenLastCalledWith(0, 1200);
+
+    act(() => {
+      latest.setHeightFromPayload(1600);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(400);
+    expect(onHeightChange).toHaveBeenCalledTimes(1);
+    expect(onOverflowChange).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      latest.setHeightFromPayload(300);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(300);
+    expect(latest.isOverflowing).toBe(false);
+    expect(onOverflowChange).toHaveBeenLastCalledWith(false);
+    unmount();
+  });
+
+  it('reports content shrinking back to the clamped height', () => {
+    const onContentSizeChange = jest.fn();
+    const { unmount } = render(
+      <Harness
+        minHeight={50}
+        maxHeight={100}
+        onContentSizeChange={onContentSizeChange}
+      />
+    );
+
+    act(() => {
+      latest.setHeightFromPayload(500);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(100);
+    expect(latest.isOverflowing).toBe(true);
+
+    act(() => {
+      latest.setHeightFromPayload(101);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(100);
+    expect(latest.isOverflowing).toBe(true);
+    expect(onContentSizeChange).toHaveBeenLastCalledWith(0, 101);
+
+    act(() => {
+      latest.setHeightFromPayload(500);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    act(() => {
+      latest.setHeightFromPayload(100);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.isOverflowing).toBe(false);
+    expect(onContentSizeChange).toHaveBeenLastCalledWith(0, 100);
+    unmount();
+  });
+
+  it('re-applies the last content height when maxHeight changes', () => {
+    const onOverflowChange = jest.fn();
+    const { rerender, unmount } = render(
+      <Harness
+        minHeight={50}
+        maxHeight={800}
+        onOverflowChange={onOverflowChange}
+      />
+    );
+
+    act(() => {
+      latest.setHeightFromPayload(600);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(600);
+    expect(latest.isOverflowing).toBe(false);
+
+    act(() => {
+      rerender(
+        <Harness
+          minHeight={50}
+          maxHeight={250}
+          onOverflowChange={onOverflowChange}
+        />
+      );
+    });
+
+    expect(latest.height).toBe(250);
+    expect(latest.isOverflowing).toBe(true);
+
+    act(() => {
+      rerender(<Harness minHeight={50} onOverflowChange={onOverflowChange} />);
+    });
+
+    expect(latest.height).toBe(600);
+    expect(latest.isOverflowing).toBe(false);
+    expect(onOverflowChange.mock.calls).toEqual([[true], [false]]);
+    unmount();
+  });
+
+  it('lets minHeight win over a smaller maxHeight', () => {
+    const { unmount } = render(<Harness minHeight={300} maxHeight={100} />);
+
+    act(() => {
+      latest.setHeightFromPayload(900);
+    });
+
+    act(() => {
+      flushRaf();
+    });
+
+    expect(latest.height).toBe(300);
+    expect(latest.isOverflowing).toBe(true);
+    unmount();
+  });
+
+  describe('animateHeight', () => {
+    const createCompositeAnimation = () => ({
+      start: jest.fn(),
+      stop: jest.fn(),
+      reset: jest.fn(),
+    });
+
+    const commit = (value: number) => {
+      act(() => {
+        latest.setHeightFromPayload(value);
+      });
+
+      act(() => {
+        flushRaf();
+      });
+    };
+
+    it('does not expose an animated value unless enabled', () => {
+      const { unmount } = render(<Harness minHeight={10} />);
+
+      expect(latest.animatedHeight).toBeUndefined();
+      unmount();
+    });
+
+    it('applies the first measurement immediately and times later ones', () => {
+      const animation = createCompositeAnimation();
+      const timing = jest.spyOn(Animated, 'timing').mockReturnValue(animation);
+
+      const { unmount } = render(<Harness minHeight={10} animateHeight />);
+
+      const animatedHeight = latest.animatedHeight!;
+      const setValue = jest.spyOn(animatedHeight, 'setValue');
+
+      commit(300);
+
+      expect(timing).not.toHaveBeenCalled();
+      expect(setValue).toHaveBeenLastCalledWith(300);
+
+      commit(500);
+
+      expect(timing).toHaveBeenCalledWith(
+        animatedHeight,
+        expect.objectContaining({
+          toValue: 500,
+          duration: 220,
+          useNativeDriver: false,
+        })
+      );
+      expect(animation.start).toHaveBeenCalledTimes(1);
+      expect(latest.height).toBe(500);
+
+      commit(700);
+
+      expect(animation.stop).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        unmount();
+      });
+
+      expect(animation.stop).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not animate the first measurement after a minHeight change', () => {
+      const timing = jest
+        .spyOn(Animated, 'timing')
+        .mockReturnValue(createCompositeAnimation());
+
+      const { rerender, unmount } = render(
+        <Harness minHeight={10} animateHeight />
+      );
+
+      rerender(<Harness minHeight={50} animateHeight />);
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(latest.height).toBe(50);
+
+      commit(300);
+
+      expect(timing).not.toHaveBeenCalled();
+      expect(latest.height).toBe(300);
+
+      commit(500);
+
+      expect(timing).toHaveBeenCalledTimes(1);
+      unmount();
+    });
+
+    it('honours custom timing options', () => {
+      const easing = (value: number) => value;
+      const timing = jest
+        .spyOn(Animated, 'timing')
+        .mockReturnValue(createCompositeAnimation());
+
+      const { unmount } = render(
+        <Harness
+          minHeight={10}
+          animateHeight={{ type: 'timing', duration: 90, easing }}
+        />
+      );
+
+      commit(300);
+      commit(500);
+
+      expect(timing).toHaveBeenCalledWith(
+        latest.animatedHeight,
+        expect.objectContaining({ toValue: 500, duration: 90, easing })
+      );
+      unmount();
+    });
+
+    it('drives spring animations', () => {
+      const spring = jest
+        .spyOn(Animated, 'spring')
+        .mockReturnValue(createCompositeAnimation());
+
+      const { unmount } = render(
+        <Harness
+          minHeight={10}
+          animateHeight={{ type: 'spring', damping: 18 }}
+        />
+      );
+
+      commit(300);
+      commit(500);
+
+      expect(spring).toHaveBeenCalledTimes(1);
+      expect(spring).toHaveBeenCalledWith(
+        latest.animatedHeight,
+        expect.objectContaining({
+          toValue: 500,
+          damping: 18,
+          useNativeDriver: false,
+        })
+      );
+      unmount();
+    });
+
+    it('configures a LayoutAnimation for layout transitions', () => {
+      const configureNext = jest
+        .spyOn(LayoutAnimation, 'configureNext')
+        .mockImplementation(() => {});
+
+      const { unmount } = render(
+        <Harness minHeight={10} animateHeight={{ type: 'layout' }} />
+      );
+
+      expect(latest.animatedHeight).toBeUndefined();
+
+      commit(300);
+
+      expect(configureNext).not.toHaveBeenCalled();
+
+      commit(500);
+
+      expect(configureNext).toHaveBeenCalledWith(
+        expect.objectContaining({ duration: 220 })
+      );
+      expect(latest.height).toBe(500);
+      unmount();
+    });
+
+    it('keeps inline configs stable across renders', () => {
+      const hydrate = jest.fn(() => Promise.resolve());
+      const cache = { ...createMemoryHeightCache(), hydrate };
+
+      const { rerender, unmount } = render(
+        <Harness
+          minHeight={10}
+          heightCache={cache}
+          cacheKey="article"
+          animateHeight={{ type: 'spring', damping: 18 }}
+        />
+      );
+
+      rerender(
+        <Harness
+          minHeight={10}
+          heightCache={cache}
+          cacheKey="article"
+          animateHeight={{ type: 'spring', damping: 18 }}
+        />
+      );
+
+      expect(hydrate).toHaveBeenCalledTimes(1);
+      unmount();
+    });
+  });
+
+  describe('heightCache', () => {
+    it('starts from the cached height and writes committed heights back', () => {
+      const cache = createMemoryHeightCache();
+      cache.set('article', 640.2);
+
+      const { unmount } = render(
+        <Harness
+          minHeight={100}
+          heightCache={cache}
+          cacheKey="article"
+          onHeightChange={onHeightChange}
+        />
+      );
+
+      expect(latest.height).toBe(641);
+      expect(onHeightChange).not.toHaveBeenCalled();
+
+      act(() => {
+        latest.setHeightFromPayload(700);
+      });
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(cache.get('article')).toBe(700);
+      unmount();
+    });
+
+    it('only writes measured content heights back', () => {
+      const cache = createMemoryHeightCache();
+      const set = jest.spyOn(cache, 'set');
+      cache.set('first', 300);
+      set.mockClear();
+
+      const { rerender, unmount } = render(
+        <Harness minHeight={10} heightCache={cache} cacheKey="first" />
+      );
+
+      rerender(
+        <Harness minHeight={500} heightCache={cache} cacheKey="first" />
+      );
+      rerender(
+        <Harness minHeight={10} heightCache={cache} cacheKey="second" />
+      );
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(set).not.toHaveBeenCalled();
+
+      rerender(
+        <Harness minHeight={200} heightCache={cache} cacheKey="second" />
+      );
+
+      act(() => {
+        latest.setHeightFromPayload(120.4);
+      });
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(latest.height).toBe(200);
+      expect(set.mock.calls).toEqual([['second', 121]]);
+      unmount();
+    });
+
+    it('clamps cached heights to maxHeight from the first render', () => {
+      const cache = createMemoryHeightCache();
+      cache.set('long', 5000);
+
+      const { unmount } = render(
+        <Harness
+          minHeight={0}
+          maxHeight={400}
+          heightCache={cache}
+          cacheKey="long"
+        />
+      );
+
+      expect(latest.height).toBe(400);
+      expect(latest.isOverflowing).toBe(true);
+      unmount();
+    });
+
+    it('ignores invalid cache entries and missing keys', () => {
+      const cache: HeightCache = { get: () => -1, set: jest.fn() };
+
+      const { unmount } = render(
+        <Harness minHeight={80} heightCache={cache} cacheKey="broken" />
+      );
+
+      expect(latest.height).toBe(80);
+
+      act(() => {
+        latest.setHeightFromPayload(200);
+      });
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(cache.set).toHaveBeenCalledWith('broken', 200);
+      unmount();
+
+      const { unmount: unmountWithoutKey } = render(
+        <Harness minHeight={80} heightCache={cache} />
+      );
+
+      act(() => {
+        latest.setHeightFromPayload(300);
+      });
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(cache.set).toHaveBeenCalledTimes(1);
+      unmountWithoutKey();
+    });
+
+    it('applies the cached height when the key changes', () => {
+      const cache = createMemoryHeightCache();
+      cache.set('b', 900);
+
+      const { rerender, unmount } = render(
+        <Harness minHeight={50} heightCache={cache} cacheKey="a" />
+      );
+
+      expect(latest.height).toBe(50);
+
+      act(() => {
+        rerender(<Harness minHeight={50} heightCache={cache} cacheKey="b" />);
+      });
+
+      act(() => {
+        flushRaf();
+      });
+
+      expect(latest.height).toBe(900);
+
+      act(() => {
+        rerender(<Harness minHeight={50} heightCache={cache} cacheKey="c" />);
+      });
+
+      expect(requestAnimationFrameMock).toHaveBeenCalledTimes(1);
+      expect(latest.height).toBe(900);
+      unmount();
+    });
+
+    describe('hydration', () => {
+      const createHydratingCache = (
+        entries: Record<string, number>,
+        hydrate: () => Promise<void> = () => Promise.resolve()
+      ): HeightCache => ({
+        get: (key) => entries[key],
+        set: jest.fn(),
+        hydrate: jest.fn(hydrate),
+      });
+
+      it('applies a hydrated height when nothing was measured yet', async () => {
+        const entries: Record<string, number> = {};
+        const cache = createHydratingCache(entries, async () => {
+          entries.article = 820;
+        });
+
+        const { unmount } = render(
+          <Harness minHeight={40} heightCache={cache} cacheKey="article" />
+        );
+
+        expect(latest.height).toBe(40);
+
+        await act(async () => {});
+
+        act(() => {
+          flushRaf();
+        });
+
+        expect(cache.hydrate).toHaveBeenCalledTimes(1);
+        expect(latest.height).toBe(820);
+        unmount();
+      });
+
+      it('keeps live measurements over hydrated heights', async () => {
+        const cache = createHydratingCache({ article: 820 });
+
+        const { unmount } = render(
+          <Harness minHeight={40} heightCache={cache} cacheKey="article" />
+        );
+
+        act(() => {
+          latest.setHeightFromPayload(300);
+        });
+
+        await act(async () => {});
+
+        act(() => {
+          flushRaf();
+        });
+
+        expect(latest.height).toBe(300);
+        unmount();
+      });
+
+      it('ignores hydration results after unmount, misses and failures', async () => {
+        const hit = createHydratingCache({ article: 820 });
+        const { unmount } = render(
+          <Harness minHeight={40} heightCache={hit} cacheKey="article" />
+        );
+        unmount();
+
+        const miss = createHydratingCache({});
+        const { unmount: unmountMiss } = render(
+          <Harness minHeight={40} heightCache={miss} cacheKey="article" />
+        );
+
+        const failing = createHydratingCache({}, () =>
+          Promise.reject(new Error('boom'))
+        );
+        const { unmount: unmountFailing } = render(
+          <Harness minHeight={40} heightCache={failing} cacheKey="article" />
+        );
+
+        const keyless = createHydratingCache({});
+        const { unmount: unmountKeyless } = render(
+          <Harness minHeight={40} heightCache={keyless} />
+        );
+
+        await act(async () => {});
+
+        expect(requestAnimationFrameMock).not.toHaveBeenCalled();
+        expect(keyless.hydrate).not.toHaveBeenCalled();
+        unmountMiss();
+        unmountFailing();
+        unmountKeyless();
+      });
+    });
+  });
+
+  describe('status', () => {
+    let onStatusChange: jest.Mock;
+
+    beforeEach(() => {
+      jest.useFakeTimers({
+        doNotFake: ['requestAnimationFrame', 'cancelAnimationFrame'],
+      });
+      onStatusChange = jest.fn();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('walks through loading, measuring and stable', () => {
+      const { unmount } = render(
+        <Harness minHeight={0} onStatusChange={onStatusChange} />
+      );
+
+      expect(latest.status).toBe('idle');
+
+      act(() => {
+        latest.markLoadStart();
+      });
+
+      expect(latest.status).toBe('loading');
+
+      act(() => {
+        latest.markLoadEnd();
+      });
+
+      expect(latest.status).toBe('measuring');
+
+      act(() => {
+        latest.setHeightFromPayload(300);
+        jest.advanceTimersByTime(200);
+        latest.setHeightFromPayload(320);
+        jest.advanceTimersByTime(200);
+      });
+
+      expect(latest.status).toBe('measuring');
+
+      act(() => {
+        jest.advanceTimersByTime(50);
+      });
+
+      expect(latest.status).toBe('stable');
+
+      act(() => {
+        latest.markLoadEnd();
+        jest.advanceTimersByTime(20000);
+      });
+
+      expect(latest.status).toBe('stable');
+      expect(onStatusChange.mock.calls).toEqual([
+        ['loading'],
+        ['measuring'],
+        ['stable'],
+      ]);
+      unmount();
+    });
+
+    it('reports measurements without load events', () => {
+      const { unmount } = render(<Harness minHeight={0} />);
+
+      act(() => {
+        latest.setHeightFromPayload(120);
+        jest.advanceTimersByTime(250);
+      });
+
+      expect(latest.status).toBe('stable');
+      unmount();
+    });
+
+    it('keeps load errors until the next load start', () => {
+      const { unmount } = render(
+        <Harness minHeight={0} onStatusChange={onStatusChange} />
+      );
+
+      act(() => {
+        latest.markLoadStart();
+        latest.setHeightFromPayload(120);
+        latest.markLoadError();
+        latest.markLoadEnd();
+        latest.setHeightFromPayload(240);
+        jest.advanceTimersByTime(20000);
+      });
+
+      expect(latest.status).toBe('error');
+
+      act(() => {
+        latest.markLoadStart();
+      });
+
+      expect(onStatusChange.mock.calls).toEqual([
+        ['loading'],
+        ['measuring'],
+        ['error'],
+        ['loading'],
+      ]);
+      unmount();
+    });
+
+    it('times out when the content does not settle, then recovers', () => {
+      const { unmount } = render(
+        <Harness
+          minHeight={0}
+          statusTimeout={1000}
+          onStatusChange={onStatusChange}
+        />
+      );
+
+      act(() => {
+        latest.markLoadStart();
+        jest.advanceTimersByTime(999);
+      });
+
+      expect(latest.status).toBe('loading');
+
+      act(() => {
+        latest.setHeightFromPayload(120);
+        jest.advanceTimersByTime(1);
+      });
+
+      expect(latest.status).toBe('timeout');
+
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+
+      expect(latest.status).toBe('timeout');
+
+      act(() => {
+        latest.setHeightFromPayload(240);
+        jest.advanceTimersByTime(250);
+      });
+
+      expect(latest.status).toBe('stable');
+      unmount();
+    });
+
+    it('can disable the timeout and clears timers on unmount', () => {
+      const { unmount } = render(<Harness minHeight={0} statusTimeout={0} />);
+
+      act(() => {
+        latest.markLoadStart();
+        jest.advanceTimersByTime(60000);
+      });
+
+      expect(latest.status).toBe('loading');
+
+      act(() => {
+        latest.setHeightFromPayload(120);
+      });
+
+      unmount();
+
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,70 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Animated, StyleSheet } from 'react-native';
+
+/**
+ * Props for the PlaceholderOverlay component.
+ * @internal
+ */
+interface PlaceholderOverlayProps {
+  /** Whether the placeholder should be shown; `false` starts the fade-out. */
+  visible: boolean;
+  /** Duration (ms) of the fade-out. */
+  fadeDuration: number;
+  /** Renders the placeholder; only called while it is mounted. */
+  renderPlaceholder: () => ReactNode;
+}
+
+/**
+ * Overlays the placeholder on top of the WebView and fades it out once
+ * `visible` turns `false`, unmounting it when the fade completes.
+ *
+ * @internal Used by SizedWebView to render `renderPlaceholder`
+ */
+export const PlaceholderOverlay = ({
+  visible,
+  fadeDuration,
+  renderPlaceholder,
+}: PlaceholderOverlayProps) => {
+  const [opacity] = useState(() => new Animated.Value(1));
+
+  const [isMounted, setIsMounted] = useState(visible);
+
+  useEffect(() => {
+    if (visible) {
+      return;
+    }
+
+    const fade = Animated.timing(opacity, {
+      toValue: 0,
+      duration: fadeDuration,
+      useNativeDriver: true,
+    });
+
+    fade.start(({ finished }) => {
+      if (finished) {
+        setIsMounted(false);
+      }
+    });
+
+    return () => {
+      fade.stop();
+    };
+  }, [fadeDuration, opacity, visible]);
+
+  if (!isMounted) {
+    return null;
+  }
+
+  return (
+    <Animated.View style={[styles.overlay, { opacity }]}>
+      {renderPlaceholder()}
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    pointerEvents: 'none',
+  },
+});
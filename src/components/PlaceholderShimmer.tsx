@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import {
+  Animated,
+  StyleSheet,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+
+/**
+ * Props for the PlaceholderShimmer component.
+ */
+export interface PlaceholderShimmerProps {
+  /**
+   * Style applied to the pulsing block, e.g. a `backgroundColor` matching your theme.
+   */
+  style?: StyleProp<ViewStyle>;
+
+  /**
+   * Duration (ms) of one fade in or fade out of the pulse.
+   *
+   * @default 800
+   */
+  pulseDuration?: number;
+}
+
+/**
+ * Lowest opacity reached by the pulse.
+ * @internal
+ */
+const MIN_PULSE_OPACITY = 0.4;
+
+/**
+ * Skeleton for `SizedWebView`'s `renderPlaceholder`, shown until the content
+ * is measured.
+ *
+ * Fills its parent with a neutral block whose opacity pulses on the native driver.
+ *
+ * @example
+ * ```tsx
+ * <SizedWebView
+ *   renderPlaceholder={() => (
+ *     <PlaceholderShimmer style={{ backgroundColor: '#1F2328' }} />
+ *   )}
+ *   source={source}
+ * />
+ * ```
+ */
+export const PlaceholderShimmer = ({
+  style,
+  pulseDuration = 800,
+}: PlaceholderShimmerProps) => {
+  const [opacity] = useState(() => new Animated.Value(1));
+
+  useEffect(() => {
+    const pulse = Animated.loop(
+      Animated.sequence([
+        Animated.timing(opacity, {
+          toValue: MIN_PULSE_OPACITY,
+          duration: pulseDuration,
+          useNativeDriver: true,
+        }),
+        Animated.timing(opacity, {
+          toValue: 1,
+          duration: pulseDuration,
+          useNativeDriver: true,
+        }),
+      ])
+    );
+
+    pulse.start();
+
+    return () => {
+      pulse.stop();
+    };
+  }, [opacity, pulseDuration]);
+
+  return <Animated.View style={[styles.shimmer, style, { opacity }]} />;
+};
+
+const styles = StyleSheet.create({
+  shimmer: {
+    flex: 1,
+    backgroundColor: '#E1E4E8',
+  },
+});
@@ -1,20 +1,205 @@
-import { useCallback, useMemo } from 'react';
-import type { FC } from 'react';
-import { View, type StyleProp, type ViewStyle } from 'react-native';
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  type ComponentRef,
+  type ReactNode,
+  type RefObject,
+} from 'react';
+import {
+  Animated,
+  Linking,
+  Platform,
+  useWindowDimensions,
+  type LayoutChangeEvent,
+  type ScrollView,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
 import {
   WebView,
   type WebViewMessageEvent,
   type WebViewProps,
 } from 'react-native-webview';
 
-import { AUTO_HEIGHT_BRIDGE } from '../constants/autoHeightBridge';
-import { useAutoHeight } from '../hooks/useAutoHeight';
+import {
+  AUTO_HEIGHT_BRIDGE,
+  createAutoHeightBridge,
+  type AutoHeightBridgeOptions,
+} from '../constants/autoHeightBridge';
+import { BRIDGE_PROTOCOL_VERSION } from '../constants/bridgeProtocol';
+import {
+  useAutoHeight,
+  type AutoHeightStatus,
+  type HeightAnimation,
+} from '../hooks/useAutoHeight';
+import {
+  useContentReady,
+  type WaitForStableHeightOptions,
+} from '../hooks/useContentReady';
+import { useBridgeRequests } from '../hooks/useBridgeRequests';
+import { useParentScroll } from '../hooks/useParentScroll';
 import { composeInjectedScript } from '../utils/composeInjectedScript';
+import { createBridgeCommandScript } from '../utils/createBridgeCommandScript';
+import {
+  createBridgeConfigScript,
+  type BridgeConfig,
+  type ContentSizing,
+  type MeasurementStrategy,
+  type BaseStylePreset,
+  type BaseStylesOptions,
+  type MeasureTarget,
+  type ThemeOptions,
+  type TrailingNodesOptions,
+} from '../utils/createBridgeConfigScript';
+import { createHeightCacheKey } from '../utils/createHeightCacheKey';
+import {
+  createOriginMatcher,
+  extractOrigin,
+} from '../utils/createOriginMatcher';
+import { sharedHeightCache, type HeightCache } from '../utils/heightCache';
+import {
+  DEFAULT_CONTENT_SECURITY_POLICY,
+  injectContentSecurityPolicy,
+} from '../utils/injectContentSecurityPolicy';
+import { sanitizeHtml, type SanitizeHtmlOptions } from '../utils/sanitizeHtml';
+import {
+  parseBridgeMessage,
+  readElementRectPayload,
+  readFindResultPayload,
+  type ElementRect,
+  type FindResult,
+  type MeasureDetails,
+  type MeasureReason,
+} from '../utils/parseBridgeMessage';
+import { PlaceholderOverlay } from './PlaceholderOverlay';
+
+/**
+ * Diagnostic information about a height reported by the bridge.
+ */
+export interface MeasureEvent {
+  /** The reported content height (CSS px, i.e. dp/points). */
+  height: number;
+  /** The previously reported content height, `0` for the first report. */
+  previousHeight: number;
+  /** `height - previousHeight`. */
+  delta: number;
+  /** What triggered the measurement. */
+  reason: MeasureReason;
+  /** Raw readings of each measured element. */
+  details: MeasureDetails;
+}
+
+/**
+ * What happens when the user taps a link inside the page.
+ *
+ * - `'inline'`: the sized view itself navigates to the link
+ * - `'external'`: the link opens natively through `Linking.openURL`
+ * - `'callback'`: nothing navigates; `onLinkPress` handles the link
+ */
+export type LinkBehavior = 'inline' | 'external' | 'callback';
+
+/**
+ * Link intercepted by `linkBehavior`.
+ */
+export interface LinkPressEvent {
+  /** Absolute URL of the link. */
+  url: string;
+  /**
+   * The link `target` (`'_blank'` for `window.open()`), `null` when it has
+   * none or the navigation was started by a script.
+   */
+  target: string | null;
+  /** Trimmed text of the link, empty when it is not a tapped `<a>`. */
+  text: string;
+}
+
+/**
+ * Which origins the page may load and how far it may navigate.
+ *
+ * - `'strict'`: only `about:` and `data:` origins (plus the origin of
+ *   `source.baseUrl`) load, the page never navigates away once loaded and
+ *   `window.open()` is blocked
+ * - `'standard'`: `http(s):`, `about:` and `data:` origins load; navigation
+ *   follows `linkBehavior`
+ * - `'permissive'`: any origin loads and `originWhitelist` is handed to the
+ *   WebView untouched, as in earlier releases
+ */
+export type SecurityMode = 'strict' | 'standard' | 'permissive';
+
+/**
+ * Navigation blocked by `securityMode`.
+ */
+export interface BlockedNavigationEvent {
+  /** Absolute URL the page tried to load. */
+  url: string;
+  /**
+   * - `'origin'`: the URL's origin is not allowed
+   * - `'navigation'`: the page tried to navigate away in `'strict'` mode
+   * - `'window.open'`: the page called `window.open()` in `'strict'` mode
+   * - `'scheme'`: an `'external'` link would have opened another app
+   */
+  reason: 'origin' | 'navigation' | 'window.open' | 'scheme';
+}
+
+/**
+ * Options for `SizedWebViewHandle.scrollParentToElement`.
+ */
+export interface ScrollToElementOptions {
+  /**
+   * Space (dp) kept between the top of the parent `ScrollView` and the
+   * element, e.g. the height of a sticky header.
+   *
+   * @default 0
+   */
+  offset?: number;
+
+  /**
+   * Whether the parent scrolls with an animation.
+   *
+   * @default true
+   */
+  animated?: boolean;
+}
+
+/**
+ * Options for `SizedWebViewHandle.find`.
+ */
+export interface FindOptions {
+  /**
+   * Whether letter case must match.
+   *
+   * @default false
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Whether matches must start and end on word boundaries.
+   *
+   * @default false
+   */
+  wholeWord?: boolean;
+
+  /**
+   * Space (dp) kept between the top of the parent `ScrollView` and the active
+   * match when `parentScrollViewRef` is set. Also used by `findNext` and
+   * `findPrevious`.
+   *
+   * @default 0
+   */
+  offset?: number;
+}
 
 /**
  * Props for the SizedWebView component.
  *
  * Extends all standard WebViewProps with additional auto-sizing capabilities.
+ * `onContentSizeChange` is redefined with ScrollView's `(width, height)` signature.
  *
  * @example
  * ```tsx
@@ -25,7 +210,10 @@ import { composeInjectedScript } from '../utils/composeInjectedScript';
  * />
  * ```
  */
-export interface SizedWebViewProps extends WebViewProps {
+export interface SizedWebViewProps extends Omit<
+  WebViewProps,
+  'onContentSizeChange'
+> {
   /**
    * Minimum height (in dp/points) for the WebView container.
    *
@@ -38,6 +226,72 @@ export interface SizedWebViewProps extends WebViewProps {
    */
   minHeight?: number;
 
+  /**
+   * Maximum height (in dp/points) for the WebView container.
+   *
+   * When the content is taller, the container is clamped to `maxHeight` and
+   * `scrollEnabled`, `nestedScrollEnabled` and `showsVerticalScrollIndicator`
+   * switch on (unless explicitly set) so the content scrolls inside the WebView.
+   * Keeps very long pages from creating huge backing layers.
+   *
+   * @default undefined (no upper bound)
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView maxHeight={600} source={{ uri: 'https://example.com' }} />
+   * ```
+   */
+  maxHeight?: number;
+
+  /**
+   * Callback fired when the content starts or stops exceeding `maxHeight`.
+   *
+   * @param isOverflowing - Whether the container is clamped and scrolls internally
+   */
+  onOverflowChange?: (isOverflowing: boolean) => void;
+
+  /**
+   * Opt-in animation for container height changes.
+   *
+   * Pass `true` for a 220ms ease-out timing, or a `HeightAnimation` describing a
+   * timing, spring or `LayoutAnimation` transition. The first measurement is
+   * applied immediately so the initial layout never animates.
+   *
+   * @default false
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView animateHeight={{ type: 'spring', damping: 20 }} source={source} />
+   * ```
+   */
+  animateHeight?: boolean | HeightAnimation;
+
+  /**
+   * Cache used to start remounted views at their last known height.
+   *
+   * Defaults to an in-memory LRU shared by every `SizedWebView`
+   * (`sharedHeightCache`). Pass your own `HeightCache` to scope it, or `false`
+   * to disable caching.
+   *
+   * @default sharedHeightCache
+   */
+  heightCache?: HeightCache | false;
+
+  /**
+   * Overrides the key under which this view's height is cached.
+   *
+   * By default the key is derived from `source.html`/`source.uri` and the
+   * container width, see `createHeightCacheKey`. The window width stands in
+   * until the first layout (and whenever `sizing` tracks the content width).
+   * Provide a key when the same content is served from different sources.
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView cacheKey={`article-${article.id}`} source={{ html: article.body }} />
+   * ```
+   */
+  cacheKey?: string;
+
   /**
    * Style object applied to the wrapping `View` container that hosts the WebView.
    *
@@ -71,8 +325,588 @@ export interface SizedWebViewProps extends WebViewProps {
    * ```
    */
   onHeightChange?: (height: number) => void;
+
+  /**
+   * Axis (or axes) along which the container follows the content.
+   *
+   * - `'height'`: height follows the content, width comes from the layout (default)
+   * - `'width'`: width follows the intrinsic content width, height comes from `containerStyle`
+   * - `'both'`: both dimensions follow the content
+   *
+   * When width is tracked, the page is laid out at its `max-content` width, which
+   * suits chips, badges and inline snippets placed in horizontal rows.
+   *
+   * @default 'height'
+   *
+   * @example
+   * ```tsx
+   * <View style={{ flexDirection: 'row' }}>
+   *   <SizedWebView sizing="both" source={{ html: '<span>New</span>' }} />
+   * </View>
+   * ```
+   */
+  sizing?: ContentSizing;
+
+  /**
+   * Callback fired whenever the committed content size changes, mirroring
+   * ScrollView's `onContentSizeChange`.
+   *
+   * Replaces the Android-only native `onContentSizeChange` event of `WebView`,
+   * and is driven by the bridge on every platform.
+   *
+   * @param width - The content width in dp/points
+   * @param height - The content height in dp/points
+   */
+  onContentSizeChange?: (width: number, height: number) => void;
+
+  /**
+   * Renders the placeholder overlaid on the container until the bridge reports
+   * a first valid height, after which it fades out and unmounts.
+   *
+   * Nothing is overlaid by default, so the bare (transparent) WebView shows
+   * through; return `<PlaceholderShimmer />` for a pulsing skeleton.
+   *
+   * @default null
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView
+   *   minHeight={120}
+   *   renderPlaceholder={() => <PlaceholderShimmer />}
+   *   source={{ uri: article.url }}
+   * />
+   * ```
+   */
+  renderPlaceholder?: (() => ReactNode) | null;
+
+  /**
+   * Duration (ms) of the placeholder fade-out.
+   *
+   * @default 200
+   */
+  placeholderFadeDuration?: number;
+
+  /**
+   * Callback fired whenever the content lifecycle status changes.
+   *
+   * Follows `idle → loading → measuring → stable`, with `error` when the page
+   * fails to load and `timeout` when it does not settle within `statusTimeout`.
+   * Useful to gate spinners or to report load times.
+   *
+   * @param status - The new lifecycle status
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView
+   *   onStatusChange={(status) => setIsReady(status === 'stable')}
+   *   source={{ uri: 'https://example.com' }}
+   * />
+   * ```
+   */
+  onStatusChange?: (status: AutoHeightStatus) => void;
+
+  /**
+   * Time (ms) after a load start within which the content must become stable
+   * before the status switches to `'timeout'`. `0` disables the timeout.
+   *
+   * @default 10000
+   */
+  statusTimeout?: number;
+
+  /**
+   * Callback fired when pending images, iframes, videos and fonts have settled
+   * and the height stayed unchanged for `readyQuietWindow`.
+   *
+   * Fires again whenever the content changes and settles anew.
+   *
+   * @param height - The settled content height in dp/points
+   */
+  onContentReady?: (height: number) => void;
+
+  /**
+   * Quiet window (ms) the height must stay unchanged before the content is
+   * reported as ready.
+   *
+   * @default 300
+   */
+  readyQuietWindow?: number;
+
+  /**
+   * Callback fired for every height reported by the bridge, before it is
+   * clamped or committed, with what triggered it and the raw readings behind it.
+   *
+   * Meant for debugging "why is my view 20px too tall" and for tracking
+   * layout churn in analytics.
+   *
+   * @param event - The reported height, its delta and the measurement details
+   *
+   * @example
+   * ```tsx
+   * onMeasure={({ height, delta, reason, details }) => {
+   *   console.log(`${reason}: ${height} (${delta >= 0 ? '+' : ''}${delta})`, details);
+   * }}
+   * ```
+   */
+  onMeasure?: (event: MeasureEvent) => void;
+
+  /**
+   * Timing tunables of the injected bridge (debounces, fallback timer,
+   * stabilization delays, height sanity bound), see `createAutoHeightBridge`.
+   *
+   * Like the rest of the injected scripts, changes apply on the next page load.
+   *
+   * @default DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS
+   *
+   * @example
+   * ```tsx
+   * // Chat bubbles: react faster to streamed tokens.
+   * <SizedWebView bridgeOptions={{ activeDebounce: 16, idleDebounce: 32 }} source={source} />
+   * ```
+   */
+  bridgeOptions?: AutoHeightBridgeOptions;
+
+  /**
+   * How the bridge finds the content height.
+   *
+   * - `'wrapper'`: moves the children of `<body>` into a measured wrapper (default)
+   * - `'document'`: leaves the DOM untouched and measures the bounds of `<body>`
+   *
+   * Pick `'document'` when the page's framework keeps references to body
+   * children, styles them with `body > …` selectors, or renders into
+   * `document.body` itself. Applies on the next page load.
+   *
+   * @default 'wrapper'
+   */
+  measurementStrategy?: MeasurementStrategy;
+
+  /**
+   * Controls how trailing blank nodes (`<br>`, empty `<p>`) are trimmed from
+   * the end of the page so they don't add phantom padding.
+   *
+   * - `true`: removes trailing `<br>` and empty `<p>` nodes (default)
+   * - `false`: leaves the page untouched, e.g. for rich-text editor previews
+   * - `TrailingNodesOptions`: custom selectors, and/or `mode: 'collapse'` to
+   *   hide the nodes with CSS instead of removing them
+   *
+   * Applies on the next page load.
+   *
+   * @default true
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView
+   *   pruneTrailingNodes={{ selectors: ['br', 'p', 'div.spacer'], mode: 'collapse' }}
+   *   source={{ html: authoredHtml }}
+   * />
+   * ```
+   */
+  pruneTrailingNodes?: boolean | TrailingNodesOptions;
+
+  /**
+   * Sizes the container to a specific element instead of the whole page, for
+   * pages whose full-height backgrounds or off-canvas menus inflate the
+   * document height.
+   *
+   * Pass a CSS selector, or `{ measure }` holding the source of a
+   * `(document, window) => number | Element` function evaluated in the page.
+   * Falls back to the regular measurement while nothing matches. Applies on
+   * the next page load.
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView measureTarget="#article" source={{ uri: article.url }} />
+   *
+   * <SizedWebView
+   *   measureTarget={{ measure: '(doc) => doc.querySelector("main").scrollHeight' }}
+   *   source={source}
+   * />
+   * ```
+   */
+  measureTarget?: MeasureTarget;
+
+  /**
+   * Sizes the container to the bottom edge of the lowest visible descendant
+   * element or text instead of the layout height, so absolutely positioned footers, popovers
+   * and transformed content are neither cut off nor over-counted.
+   *
+   * Hidden elements and `position: fixed` overlays are ignored, and descendants
+   * are clipped at ancestors with `overflow: hidden`, `clip`, `scroll` or
+   * `auto`. Walks the whole tree on every measurement, so keep it for pages
+   * that need it. `measureTarget` takes precedence. Applies on the next page load.
+   *
+   * @default false
+   */
+  deepMeasurement?: boolean;
+
+  /**
+   * Base styles applied to `<html>` and `<body>`: a preset (`'reset'`,
+   * `'minimal'` or `'none'`) or `{ preset, html, body }` with custom
+   * declarations layered on top of it.
+   *
+   * They are injected as a zero-specificity stylesheet, so the page's own
+   * stylesheets and inline styles always take precedence. Applies on the next
+   * page load.
+   *
+   * @default 'reset'
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView baseStyles="minimal" source={{ uri: brandedPage }} />
+   *
+   * <SizedWebView
+   *   baseStyles={{ preset: 'reset', body: { padding: '16px' } }}
+   *   source={{ html }}
+   * />
+   * ```
+   */
+  baseStyles?: BaseStylePreset | BaseStylesOptions;
+
+  /**
+   * Called when the page navigates to an in-page anchor (a `#section` link,
+   * a `location.hash` change or `scrollIntoView()`), which a full-height,
+   * scroll-disabled WebView cannot scroll to by itself.
+   *
+   * Setting it (or `parentScrollViewRef`) makes the bridge intercept that
+   * navigation. While the content overflows `maxHeight`, the page scrolls
+   * internally as usual instead. Applies on the next page load.
+   *
+   * @param offsetY - Top of the target element, in dp from the top of the container
+   */
+  onAnchorNavigate?: (offsetY: number) => void;
+
+  /**
+   * Ref of the `ScrollView` the `SizedWebView` is rendered in. In-page anchor
+   * navigation scrolls it so the target element sits at its top.
+   *
+   * @example
+   * ```tsx
+   * const scrollViewRef = useRef<ScrollView>(null);
+   *
+   * <ScrollView ref={scrollViewRef}>
+   *   <SizedWebView parentScrollViewRef={scrollViewRef} source={{ html }} />
+   * </ScrollView>
+   * ```
+   */
+  parentScrollViewRef?: RefObject<ComponentRef<typeof ScrollView> | null>;
+
+  /**
+   * What happens when the user taps a link (including `target="_blank"`) or
+   * the page calls `window.open()`:
+   *
+   * - `'inline'`: the sized view navigates, like a plain WebView
+   * - `'external'`: the link opens natively through `Linking.openURL`
+   * - `'callback'`: nothing navigates; handle the link in `onLinkPress`
+   *
+   * Outside `'permissive'` mode, `'external'` only opens `http(s):`,
+   * `mailto:` and `tel:` links or URLs whose origin is allowed; others are
+   * reported through `onBlockedNavigation` with the `'scheme'` reason.
+   *
+   * Same-document `#anchor` links are never intercepted. Clicks made by page
+   * scripts and `window.open()` calls without a user gesture are ignored. Top-frame navigations
+   * the page starts by itself once loaded (`location.href = …`, form
+   * submissions) are caught through `onShouldStartLoadWithRequest`, which
+   * still runs first when provided.
+   *
+   * @default 'callback' with `onLinkPress`; otherwise `'external'` for `source.html` and `'inline'` for `source.uri`
+   */
+  linkBehavior?: LinkBehavior;
+
+  /**
+   * Called with every link intercepted by `linkBehavior` `'external'` (before
+   * it opens) or `'callback'`.
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView
+   *   source={{ html: article.body }}
+   *   onLinkPress={({ url }) => navigation.navigate('Browser', { url })}
+   * />
+   * ```
+   */
+  onLinkPress?: (event: LinkPressEvent) => void;
+
+  /**
+   * Which origins the page may load and how far it may navigate.
+   *
+   * - `'strict'`: `about:`/`data:` origins only, no navigation once loaded and
+   *   no `window.open()`; links still follow `linkBehavior`
+   * - `'standard'`: `http(s):`, `about:` and `data:` origins
+   * - `'permissive'`: no restriction, as in earlier releases (explicit opt-in)
+   *
+   * `originWhitelist` replaces the origins of `'strict'` and `'standard'`;
+   * `about:blank` and the origin of `source.baseUrl` always load. Patterns
+   * must match the whole origin, except scheme-only ones such as
+   * `'https://'`, which admit every origin of that scheme. Blocked URLs are
+   * reported through `onBlockedNavigation` instead of being opened in
+   * another app.
+   *
+   * @default 'strict' for `source.html`, `'standard'` for `source.uri`
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView
+   *   securityMode="standard"
+   *   originWhitelist={['https://*.example.com']}
+   *   source={{ uri: 'https://help.example.com' }}
+   * />
+   * ```
+   */
+  securityMode?: SecurityMode;
+
+  /**
+   * Called with every navigation blocked by `securityMode`.
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView
+   *   source={{ html: untrustedHtml }}
+   *   onBlockedNavigation={({ url, reason }) => log('blocked', reason, url)}
+   * />
+   * ```
+   */
+  onBlockedNavigation?: (event: BlockedNavigationEvent) => void;
+
+  /**
+   * Content Security Policy added to `source.html` as a `<meta>` tag; `true`
+   * uses `DEFAULT_CONTENT_SECURITY_POLICY`, which blocks every page script.
+   * Ignored for `source.uri` (send the header from the server instead).
+   *
+   * The bridge itself is injected natively and is not affected, but a custom
+   * policy must keep `style-src 'unsafe-inline'` for the bridge's stylesheets,
+   * and `script-src 'unsafe-eval'` when `measureTarget` is a `{ measure }` function.
+   *
+   * @default false
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView contentSecurityPolicy source={{ html: untrustedHtml }} />
+   * ```
+   */
+  contentSecurityPolicy?: boolean | string;
+
+  /**
+   * Sanitizes `source.html` before it reaches the WebView: `<script>`, inline
+   * event handlers and URLs with unexpected schemes are dropped, along with
+   * every tag and attribute outside the allowlists. `true` uses
+   * `DEFAULT_SANITIZE_HTML_OPTIONS`. Ignored for `source.uri`.
+   *
+   * Sanitizing runs again whenever `source` or the options object changes
+   * identity, so memoize inline options.
+   *
+   * @default false
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView sanitize source={{ html: comment.body }} />
+   *
+   * const sanitizeOptions = {
+   *   ...DEFAULT_SANITIZE_HTML_OPTIONS,
+   *   allowedSchemes: ['https'],
+   * };
+   * <SizedWebView sanitize={sanitizeOptions} source={{ html: comment.body }} />
+   * ```
+   */
+  sanitize?: boolean | SanitizeHtmlOptions;
+
+  /**
+   * App theme exposed to the page as CSS custom properties on `<html>`, plus
+   * an `rn-color-scheme-light`/`rn-color-scheme-dark` class and the matching
+   * `color-scheme`. Changes are applied in place, without reloading the
+   * page, and followed by a re-measure.
+   *
+   * @example
+   * ```tsx
+   * const scheme = useColorScheme() ?? 'light';
+   *
+   * <SizedWebView
+   *   theme={{ colorScheme: scheme, tokens: { textColor: palette[scheme].text } }}
+   *   source={{ html: '<p style="color: var(--text-color)">Hello</p>' }}
+   * />
+   * ```
+   */
+  theme?: ThemeOptions;
+
+  /**
+   * Scales the page's text with the OS font size setting, like native `Text`.
+   * The factor is the OS font scale (`PixelRatio.getFontScale()`); changes
+   * at runtime are applied in place and followed by a re-measure.
+   *
+   * Android WebViews can scale text natively through `textZoom`: with this
+   * option it is pinned to `100` so text is not scaled twice. An explicit
+   * `textZoom` takes over from the OS font scale; changing it re-measures too.
+   *
+   * @default false
+   *
+   * @example
+   * ```tsx
+   * <SizedWebView allowFontScaling source={{ html: article.body }} />
+   * ```
+   */
+  allowFontScaling?: boolean;
+}
+
+/**
+ * Imperative handle exposed through the `ref` of `SizedWebView`.
+ *
+ * Wraps the underlying `WebView` methods and adds bridge-specific helpers.
+ *
+ * @example
+ * ```tsx
+ * const webViewRef = useRef<SizedWebViewHandle>(null);
+ *
+ * // After changing app state that affects the page layout
+ * webViewRef.current?.refresh();
+ *
+ * <SizedWebView ref={webViewRef} source={{ uri: 'https://example.com' }} />
+ * ```
+ */
+export interface SizedWebViewHandle {
+  /**
+   * Forces the bridge to rebuild its wrapper (if needed) and re-measure the content.
+   */
+  refresh: () => void;
+
+  /**
+   * Returns the height (in dp/points) currently applied to the container.
+   */
+  getHeight: () => number;
+
+  /**
+   * Tears down every observer, timer and listener installed by the bridge.
+   *
+   * The container keeps its last height; a `reload()` re-installs the bridge.
+   */
+  destroyBridge: () => void;
+
+  /**
+   * Executes a JavaScript string inside the page.
+   *
+   * @param script - Script to evaluate; it should end with `true;`
+   */
+  injectJavaScript: (script: string) => void;
+
+  /**
+   * Posts a message to the page (`window.onmessage`).
+   *
+   * @param message - String payload delivered to the page
+   */
+  postMessage: (message: string) => void;
+
+  /** Reloads the current page. */
+  reload: () => void;
+
+  /** Goes back one page in the WebView history. */
+  goBack: () => void;
+
+  /** Goes forward one page in the WebView history. */
+  goForward: () => void;
+
+  /** Stops loading the current page. */
+  stopLoading: () => void;
+
+  /** Focuses the rendered page. */
+  requestFocus: () => void;
+
+  /**
+   * Resolves with the content height once media and fonts have settled and
+   * the height stayed unchanged for `readyQuietWindow`. Resolves immediately
+   * when the content is already ready.
+   *
+   * Rejects when `options.timeout` elapses first or the view unmounts.
+   *
+   * @example
+   * ```ts
+   * const height = await webViewRef.current?.waitForStableHeight({ timeout: 5000 });
+   * ```
+   */
+  waitForStableHeight: (
+    options?: WaitForStableHeightOptions
+  ) => Promise<number>;
+
+  /**
+   * Resolves with the bounds of the first element matching `selector`, in dp
+   * relative to the top-left corner of the container, or `null` when nothing
+   * matches. Once a page taller than `maxHeight` scrolls, the bounds follow
+   * its scroll position.
+   *
+   * Rejects when the bridge does not answer within 3 seconds (e.g. while the
+   * page is still loading) or the view unmounts.
+   *
+   * @example
+   * ```ts
+   * const rect = await webViewRef.current?.getElementRect('#comments');
+   * ```
+   */
+  getElementRect: (selector: string) => Promise<ElementRect | null>;
+
+  /**
+   * Scrolls `parentScrollViewRef` so that the first element matching
+   * `selector` sits at its top, for "jump to comment" or table-of-contents
+   * links. Resolves with the element bounds, or `null` (without scrolling)
+   * when nothing matches.
+   *
+   * @example
+   * ```ts
+   * await webViewRef.current?.scrollParentToElement('#comment-42', {
+   *   offset: headerHeight,
+   * });
+   * ```
+   */
+  scrollParentToElement: (
+    selector: string,
+    options?: ScrollToElementOptions
+  ) => Promise<ElementRect | null>;
+
+  /**
+   * Highlights every match of `query` inside the page and makes the first one
+   * active. Resolves with the match count and the offset (dp from the top of
+   * the container) of each match; an empty query clears the matches.
+   *
+   * Matches may span inline elements such as `<b>`; hidden text is skipped.
+   * When `parentScrollViewRef` is set, the parent scrolls to the active match.
+   * Matches are a snapshot: search again after the content changes.
+   *
+   * @example
+   * ```ts
+   * const { count } = await webViewRef.current!.find('indemnity');
+   * await webViewRef.current!.findNext();
+   * ```
+   */
+  find: (query: string, options?: FindOptions) => Promise<FindResult>;
+
+  /** Activates the next match (wrapping around) and resolves with the matches. */
+  findNext: () => Promise<FindResult>;
+
+  /** Activates the previous match (wrapping around) and resolves with the matches. */
+  findPrevious: () => Promise<FindResult>;
+
+  /** Removes the find-in-page highlights. */
+  clearFind: () => void;
 }
 
+/**
+ * Origins loaded by `securityMode` when no `originWhitelist` is given, on top
+ * of `about:blank` and the `baseUrl` origin.
+ * @internal
+ */
+const SECURITY_MODE_ORIGINS = {
+  strict: ['about:*', 'data:*'],
+  standard: ['http://*', 'https://*', 'about:*', 'data:*'],
+};
+
+/**
+ * Schemes `'external'` links may always hand to `Linking.openURL` outside
+ * `'permissive'` mode; other URLs must pass the origin policy.
+ * @internal
+ */
+const EXTERNAL_LINK_SCHEME_PATTERN = /^(?:https?|mailto|tel):/i;
+
+/**
+ * Drops the fragment of a URL, so same-document navigations compare equal.
+ * @internal
+ */
+const stripHash = (url: string) => url.split('#')[0];
+
 /**
  * A React Native WebView component that automatically sizes itself to fit its HTML content.
  *
@@ -88,10 +922,15 @@ export interface SizedWebViewProps extends WebViewProps {
  * - ✅ Supports both local HTML and external URLs
  * - ✅ Configurable minimum height to prevent excessive shrinking
  * - ✅ Height change notifications via callback
+ * - ✅ Optional width (or two-axis) sizing for inline snippets
+ * - ✅ Opt-in animated height transitions
+ * - ✅ Remounted views start at their cached height
+ * - ✅ Skeleton placeholder until the first measurement
+ * - ✅ Content lifecycle status (loading, measuring, stable, error, timeout)
  *
  * ## How it Works
  * 1. An injected JavaScript bridge measures the HTML content's height
- * 2. The height value is sent back to the native layer
+ * 2. The height value is sent back to the native layer inside a namespaced envelope
  * 3. The component updates its container size on each frame
  * 4. The WebView stays scroll-disabled to prevent internal scrolling
  *
@@ -115,16 +954,24 @@ export interface SizedWebViewProps extends WebViewProps {
  *
  * ## Props
  * - All standard `WebViewProps` are supported
- * - Plus 3 additional props: `minHeight`, `containerStyle`, `onHeightChange`
+ * - Plus `minHeight`, `maxHeight`, `onOverflowChange`, `containerStyle`, `onHeightChange`, `sizing`, `onContentSizeChange`, `renderPlaceholder`, `placeholderFadeDuration`, `onStatusChange`, `statusTimeout`, `onContentReady`, `readyQuietWindow`, `onMeasure`, `bridgeOptions`, `measurementStrategy`, `pruneTrailingNodes`, `measureTarget`, `deepMeasurement`, `baseStyles`, `onAnchorNavigate`, `parentScrollViewRef`, `linkBehavior`, `onLinkPress`, `securityMode`, `onBlockedNavigation`, `contentSecurityPolicy`, `sanitize`, `theme` and `allowFontScaling`
+ *
+ * ## Ref
+ * Pass a `ref` to receive a `SizedWebViewHandle` with the usual WebView methods
+ * plus `refresh()`, `getHeight()`, `destroyBridge()` and `waitForStableHeight()`.
  *
  * ## Important Notes
- * - The component disables scroll by default (`scrollEnabled={false}`)
- * - Origin whitelist defaults to `['*']` to allow all sources
+ * - The component disables scroll by default (`scrollEnabled={false}`) and only
+ *   enables it when the content overflows `maxHeight`
+ * - Loaded origins follow `securityMode`: inline HTML is confined to `about:`
+ *   and `data:` by default, remote pages to web origins
  * - JavaScript is automatically enabled for the height bridge to work
  * - Minimum height is always enforced to avoid layout issues
+ * - Bridge messages are consumed internally; `onMessage` only receives messages posted by the page
  *
  * @component
  * @param props - SizedWebViewProps containing all configuration options
+ * @param ref - Optional ref receiving a `SizedWebViewHandle`
  * @returns A View containing the auto-sized WebView
  *
  * @example
@@ -145,75 +992,708 @@ export interface SizedWebViewProps extends WebViewProps {
  * />
  * ```
  */
-export const SizedWebView: FC<SizedWebViewProps> = ({
-  minHeight = 0,
-  containerStyle,
-  style,
-  injectedJavaScript,
-  injectedJavaScriptBeforeContentLoaded,
-  onMessage,
-  onHeightChange,
-  originWhitelist,
-  showsVerticalScrollIndicator = false,
-  scrollEnabled = false,
-  automaticallyAdjustContentInsets = true,
-  source,
-  ...rest
-}) => {
-  const { height, setHeightFromPayload } = useAutoHeight({
-    minHeight,
-    onHeightChange,
-  });
-
-  const handleMessage = useCallback(
-    (event: WebViewMessageEvent) => {
-      setHeightFromPayload(event.nativeEvent.data);
-      onMessage?.(event);
+export const SizedWebView = forwardRef<SizedWebViewHandle, SizedWebViewProps>(
+  (
+    {
+      minHeight = 0,
+      maxHeight,
+      onOverflowChange,
+      animateHeight,
+      heightCache = sharedHeightCache,
+      cacheKey,
+      containerStyle,
+      style,
+      injectedJavaScript,
+      injectedJavaScriptBeforeContentLoaded,
+      onMessage,
+      onHeightChange,
+      sizing = 'height',
+      onContentSizeChange,
+      renderPlaceholder = null,
+      placeholderFadeDuration = 200,
+      onStatusChange,
+      statusTimeout,
+      onContentReady,
+      readyQuietWindow,
+      onMeasure,
+      bridgeOptions,
+      measurementStrategy,
+      pruneTrailingNodes = true,
+      measureTarget,
+      deepMeasurement,
+      baseStyles,
+      onAnchorNavigate,
+      parentScrollViewRef,
+      linkBehavior,
+      onLinkPress,
+      securityMode,
+      onBlockedNavigation,
+      contentSecurityPolicy,
+      sanitize,
+      theme,
+      allowFontScaling = false,
+      textZoom,
+      onShouldStartLoadWithRequest,
+      onLoadStart,
+      onLoadEnd,
+      onError,
+      originWhitelist,
+      showsVerticalScrollIndicator,
+      scrollEnabled,
+      nestedScrollEnabled,
+      automaticallyAdjustContentInsets = true,
+      source,
+      ...rest
     },
-    [onMessage, setHeightFromPayload]
-  );
-
-  const composedBeforeContentScript = useMemo(
-    () =>
-      composeInjectedScript(
-        AUTO_HEIGHT_BRIDGE,
-        injectedJavaScriptBeforeContentLoaded
-      ),
-    [injectedJavaScriptBeforeContentLoaded]
-  );
-
-  const composedInjectedScript = useMemo(
-    () => composeInjectedScript(injectedJavaScript),
-    [injectedJavaScript]
-  );
-
-  const containerStyles = useMemo(
-    () => [{ height }, containerStyle],
-    [containerStyle, height]
-  );
-
-  const webViewStyles = useMemo(
-    () => [{ backgroundColor: 'transparent' }, style],
-    [style]
-  );
-
-  return (
-    <View style={containerStyles}>
+    ref
+  ) => {
+    const webViewRef = useRef<ComponentRef<typeof WebView>>(null);
+
+    const { width: windowWidth, fontScale: windowFontScale } =
+      useWindowDimensions();
+
+    const [containerWidth, setContainerWidth] = useState<number>();
+
+    const handleContainerLayout = useCallback((event: LayoutChangeEvent) => {
+      setContainerWidth(Math.round(event.nativeEvent.layout.width));
+    }, []);
+
+    const sourceHtml = source && 'html' in source ? source.html : undefined;
+
+    const sourceBaseUrl =
+      source && 'html' in source ? source.baseUrl : undefined;
+
+    const sourceUri = source && 'uri' in source ? source.uri : undefined;
+
+    // The window width stands in until the first layout; a width that follows
+    // the content cannot key its own height.
+    const cacheWidth =
+      sizing === 'height' ? (containerWidth ?? windowWidth) : windowWidth;
+
+    // Keyed on the source fields, so an inline source is not rehashed on
+    // every render.
+    const resolvedCacheKey = useMemo(
+      () =>
+        cacheKey ??
+        createHeightCacheKey(
+          { html: sourceHtml, baseUrl: sourceBaseUrl, uri: sourceUri },
+          cacheWidth
+        ),
+      [cacheKey, cacheWidth, sourceBaseUrl, sourceHtml, sourceUri]
+    );
+
+    const {
+      height,
+      setHeightFromPayload,
+      width,
+      setWidthFromPayload,
+      isOverflowing,
+      animatedHeight,
+      isMeasured,
+      markLoadStart,
+      markLoadEnd,
+      markLoadError,
+    } = useAutoHeight({
+      minHeight,
+      maxHeight,
+      onHeightChange,
+      onContentSizeChange,
+      onOverflowChange,
+      animateHeight,
+      heightCache: heightCache || undefined,
+      cacheKey: resolvedCacheKey,
+      onStatusChange,
+      statusTimeout,
+    });
+
+    const { setReadyFromPayload, invalidateReady, waitForStableHeight } =
+      useContentReady({ onContentReady });
+
+    const instanceId = useId();
+
+    const reportedHeightRef = useRef(0);
+
+    const resolvedLinkBehavior: LinkBehavior =
+      linkBehavior ??
+      (onLinkPress
+        ? 'callback'
+        : source && 'html' in source
+          ? 'external'
+          : 'inline');
+
+    const resolvedSecurityMode: SecurityMode =
+      securityMode ?? (source && 'html' in source ? 'strict' : 'standard');
+
+    const isAllowedOrigin = useMemo(() => {
+      if (resolvedSecurityMode === 'permissive') {
+        return undefined;
+      }
+
+      const origins =
+        originWhitelist ?? SECURITY_MODE_ORIGINS[resolvedSecurityMode];
+
+      // The document itself always loads: inline HTML starts at about:blank
+      // or at its baseUrl.
+      return createOriginMatcher(
+        sourceBaseUrl
+          ? [...origins, 'about:blank', extractOrigin(sourceBaseUrl)]
+          : [...origins, 'about:blank']
+      );
+    }, [originWhitelist, resolvedSecurityMode, sourceBaseUrl]);
+
+    const resolvedSource = useMemo(() => {
+      if (!source || !('html' in source)) {
+        return source;
+      }
+
+      let html = source.html;
+
+      if (sanitize) {
+        html = sanitizeHtml(html, sanitize === true ? undefined : sanitize);
+      }
+
+      if (contentSecurityPolicy) {
+        html = injectContentSecurityPolicy(
+          html,
+          contentSecurityPolicy === true
+            ? DEFAULT_CONTENT_SECURITY_POLICY
+            : contentSecurityPolicy
+        );
+      }
+
+      return html === source.html ? source : { ...source, html };
+    }, [contentSecurityPolicy, sanitize, source]);
+
+    const handleLinkPress = useCallback(
+      (event: LinkPressEvent) => {
+        if (
+          resolvedLinkBehavior === 'external' &&
+          isAllowedOrigin &&
+          !EXTERNAL_LINK_SCHEME_PATTERN.test(event.url) &&
+          !isAllowedOrigin(event.url)
+        ) {
+          // Page scripts can fake link taps: never let them launch other apps.
+          onBlockedNavigation?.({ url: event.url, reason: 'scheme' });
+          return;
+        }
+
+        onLinkPress?.(event);
+
+        if (resolvedLinkBehavior === 'external') {
+          Linking.openURL(event.url).catch(() => {
+            // Nothing can open this URL; the tap is dropped.
+          });
+        }
+      },
+      [isAllowedOrigin, onBlockedNavigation, onLinkPress, resolvedLinkBehavior]
+    );
+
+    const { containerRef, scrollParentTo } = useParentScroll({
+      parentScrollViewRef,
+    });
+
+    const injectBridgeScript = useCallback((script: string) => {
+      webViewRef.current?.injectJavaScript(script);
+    }, []);
+
+    const { request, settleRequest } = useBridgeRequests({
+      injectJavaScript: injectBridgeScript,
+    });
+
+    const findOffsetRef = useRef(0);
+
+    const scrollToActiveMatch = useCallback(
+      (result: FindResult) => {
+        const offsetY = result.offsets[result.activeIndex];
+
+        if (offsetY !== undefined) {
+          scrollParentTo(offsetY - findOffsetRef.current, true);
+        }
+
+        return result;
+      },
+      [scrollParentTo]
+    );
+
+    const getElementRect = useCallback(
+      (selector: string) =>
+        request('getElementRect', [selector], readElementRectPayload),
+      [request]
+    );
+
+    const handleMessage = useCallback(
+      (event: WebViewMessageEvent) => {
+        const message = parseBridgeMessage(event.nativeEvent.data);
+
+        if (!message) {
+          onMessage?.(event);
+          return;
+        }
+
+        if (
+          message.instanceId !== instanceId ||
+          message.version !== BRIDGE_PROTOCOL_VERSION
+        ) {
+          return;
+        }
+
+        if (message.type === 'height') {
+          const { height: reportedHeight, reason, details } = message.payload;
+
+          if (typeof reportedHeight === 'number') {
+            const previousHeight = reportedHeightRef.current;
+
+            reportedHeightRef.current = reportedHeight;
+            onMeasure?.({
+              height: reportedHeight,
+              previousHeight,
+              delta: reportedHeight - previousHeight,
+              reason: reason ?? 'unknown',
+              details: details ?? {},
+            });
+          }
+
+          invalidateReady();
+          setHeightFromPayload(message.payload.height);
+          setWidthFromPayload(message.payload.width);
+          return;
+        }
+
+        if (message.type === 'ready') {
+          setReadyFromPayload(message.payload.height);
+          return;
+        }
+
+        if (message.type === 'anchor') {
+          const { offsetY } = message.payload;
+
+          if (typeof offsetY === 'number' && Number.isFinite(offsetY)) {
+            onAnchorNavigate?.(offsetY);
+            scrollParentTo(offsetY, true);
+          }
+          return;
+        }
+
+        if (message.type === 'link') {
+          const { url, target, text } = message.payload;
+
+          if (typeof url === 'string' && url) {
+            handleLinkPress({
+              url,
+              target: typeof target === 'string' ? target : null,
+              text: typeof text === 'string' ? text : '',
+            });
+          }
+          return;
+        }
+
+        if (message.type === 'blockedNavigation') {
+          const { url } = message.payload;
+
+          if (typeof url === 'string' && url) {
+            onBlockedNavigation?.({ url, reason: 'window.open' });
+          }
+          return;
+        }
+
+        if (message.type === 'elementRect' || message.type === 'findResult') {
+          settleRequest(message.payload);
+        }
+      },
+      [
+        handleLinkPress,
+        instanceId,
+        invalidateReady,
+        onAnchorNavigate,
+        onBlockedNavigation,
+        onMeasure,
+        onMessage,
+        scrollParentTo,
+        settleRequest,
+        setHeightFromPayload,
+        setReadyFromPayload,
+        setWidthFromPayload,
+      ]
+    );
+
+    const handleLoadStart = useCallback<
+      NonNullable<WebViewProps['onLoadStart']>
+    >(
+      (event) => {
+        invalidateReady();
+        markLoadStart();
+        onLoadStart?.(event);
+      },
+      [invalidateReady, markLoadStart, onLoadStart]
+    );
+
+    const loadedUrlRef = useRef<string | null>(null);
+
+    useEffect(() => {
+      // A new source loads from scratch: its first navigation is not a link.
+      loadedUrlRef.current = null;
+    }, [sourceHtml, sourceUri]);
+
+    const handleLoadEnd = useCallback<NonNullable<WebViewProps['onLoadEnd']>>(
+      (event) => {
+        loadedUrlRef.current = event.nativeEvent.url;
+        markLoadEnd();
+        onLoadEnd?.(event);
+      },
+      [markLoadEnd, onLoadEnd]
+    );
+
+    const handleShouldStartLoadWithRequest = useCallback<
+      NonNullable<WebViewProps['onShouldStartLoadWithRequest']>
+    >(
+      (navigation) => {
+        const { url } = navigation;
+
+        if (isAllowedOrigin && !isAllowedOrigin(url)) {
+          onBlockedNavigation?.({ url, reason: 'origin' });
+          return false;
+        }
+
+        if (
+          onShouldStartLoadWithRequest &&
+          !onShouldStartLoadWithRequest(navigation)
+        ) {
+          return false;
+        }
+
+        const loadedUrl = loadedUrlRef.current;
+
+        if (
+          loadedUrl === null ||
+          navigation.isTopFrame === false ||
+          stripHash(url) === stripHash(loadedUrl)
+        ) {
+          return true;
+        }
+
+        if (resolvedSecurityMode === 'strict') {
+          onBlockedNavigation?.({ url, reason: 'navigation' });
+          return false;
+        }
+
+        if (resolvedLinkBehavior === 'inline') {
+          return true;
+        }
+
+        handleLinkPress({ url, target: null, text: '' });
+        return false;
+      },
+      [
+        handleLinkPress,
+        isAllowedOrigin,
+        onBlockedNavigation,
+        onShouldStartLoadWithRequest,
+        resolvedLinkBehavior,
+        resolvedSecurityMode,
+      ]
+    );
+
+    const handleError = useCallback<NonNullable<WebViewProps['onError']>>(
+      (event) => {
+        markLoadError();
+        onError?.(event);
+      },
+      [markLoadError, onError]
+    );
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        refresh: () => {
+          webViewRef.current?.injectJavaScript(
+            createBridgeCommandScript('refresh')
+          );
+        },
+        getHeight: () => height,
+        destroyBridge: () => {
+          webViewRef.current?.injectJavaScript(
+            createBridgeCommandScript('destroy')
+          );
+        },
+        injectJavaScript: (script: string) => {
+          webViewRef.current?.injectJavaScript(script);
+        },
+        postMessage: (message: string) => {
+          webViewRef.current?.postMessage(message);
+        },
+        reload: () => {
+          webViewRef.current?.reload();
+        },
+        goBack: () => {
+          webViewRef.current?.goBack();
+        },
+        goForward: () => {
+          webViewRef.current?.goForward();
+        },
+        stopLoading: () => {
+          webViewRef.current?.stopLoading();
+        },
+        requestFocus: () => {
+          webViewRef.current?.requestFocus();
+        },
+        waitForStableHeight,
+        getElementRect,
+        scrollParentToElement: async (
+          selector: string,
+          { offset = 0, animated = true }: ScrollToElementOptions = {}
+        ) => {
+          const rect = await getElementRect(selector);
+
+          if (rect) {
+            scrollParentTo(rect.y - offset, animated);
+          }
+
+          return rect;
+        },
+        find: (
+          query: string,
+          {
+            caseSensitive = false,
+            wholeWord = false,
+            offset = 0,
+          }: FindOptions = {}
+        ) => {
+          findOffsetRef.current = offset;
+
+          return request(
+            'find',
+            [query, caseSensitive, wholeWord],
+            readFindResultPayload
+          ).then(scrollToActiveMatch);
+        },
+        findNext: () =>
+          request('findStep', [1], readFindResultPayload).then(
+            scrollToActiveMatch
+          ),
+        findPrevious: () =>
+          request('findStep', [-1], readFindResultPayload).then(
+            scrollToActiveMatch
+          ),
+        clearFind: () => {
+          injectBridgeScript(createBridgeCommandScript('clearFind'));
+        },
+      }),
+      [
+        getElementRect,
+        height,
+        injectBridgeScript,
+        request,
+        scrollParentTo,
+        scrollToActiveMatch,
+        waitForStableHeight,
+      ]
+    );
+
+    // Option objects are compared by value, so passing them inline does not
+    // regenerate the bridge script on every render.
+    const bridgeOptionsKey = bridgeOptions
+      ? JSON.stringify(bridgeOptions)
+      : undefined;
+
+    const bridgeScript = useMemo(
+      () =>
+        bridgeOptionsKey === undefined
+          ? AUTO_HEIGHT_BRIDGE
+          : createAutoHeightBridge(JSON.parse(bridgeOptionsKey)),
+      [bridgeOptionsKey]
+    );
+
+    const pageOptionsKey = JSON.stringify({
+      trailingNodes:
+        pruneTrailingNodes === true ? undefined : pruneTrailingNodes,
+      measureTarget,
+      baseStyles,
+    });
+
+    const anchorNavigation = Boolean(onAnchorNavigate || parentScrollViewRef);
+
+    const isAndroid = Platform.OS === 'android';
+
+    // Same value as PixelRatio.getFontScale(), but it re-renders on changes.
+    const fontScale = allowFontScaling ? windowFontScale : 1;
+
+    // An explicit Android textZoom already scales the text natively.
+    const bridgeFontScale = isAndroid && textZoom !== undefined ? 1 : fontScale;
+
+    const resolvedTextZoom =
+      isAndroid && allowFontScaling && textZoom === undefined ? 100 : textZoom;
+
+    // Compared by value too, so an inline theme object does not re-inject anything.
+    const themeKey = theme ? JSON.stringify(theme) : undefined;
+
+    const composedBeforeContentScript = useMemo(
+      () =>
+        composeInjectedScript(
+          createBridgeConfigScript({
+            instanceId,
+            sizing,
+            maxHeight,
+            readyQuietWindow,
+            measurementStrategy,
+            ...(JSON.parse(pageOptionsKey) as Pick<
+              BridgeConfig,
+              'trailingNodes' | 'measureTarget' | 'baseStyles'
+            >),
+            deepMeasurement,
+            anchorNavigation: anchorNavigation || undefined,
+            interceptLinks: resolvedLinkBehavior !== 'inline' || undefined,
+            blockWindowOpen: resolvedSecurityMode === 'strict' || undefined,
+            theme: themeKey === undefined ? undefined : JSON.parse(themeKey),
+            fontScale: bridgeFontScale === 1 ? undefined : bridgeFontScale,
+          }),
+          bridgeScript,
+          injectedJavaScriptBeforeContentLoaded
+        ),
+      [
+        anchorNavigation,
+        bridgeFontScale,
+        bridgeScript,
+        deepMeasurement,
+        injectedJavaScriptBeforeContentLoaded,
+        instanceId,
+        maxHeight,
+        measurementStrategy,
+        pageOptionsKey,
+        readyQuietWindow,
+        resolvedLinkBehavior,
+        resolvedSecurityMode,
+        sizing,
+        themeKey,
+      ]
+    );
+
+    const bridgeMaxHeightRef = useRef(maxHeight);
+
+    useEffect(() => {
+      if (bridgeMaxHeightRef.current === maxHeight) {
+        return;
+      }
+
+      bridgeMaxHeightRef.current = maxHeight;
+      webViewRef.current?.injectJavaScript(
+        createBridgeCommandScript('setMaxHeight', maxHeight ?? null)
+      );
+    }, [maxHeight]);
+
+    const bridgeThemeKeyRef = useRef(themeKey);
+
+    useEffect(() => {
+      if (bridgeThemeKeyRef.current === themeKey) {
+        return;
+      }
+
+      bridgeThemeKeyRef.current = themeKey;
+      webViewRef.current?.injectJavaScript(
+        createBridgeCommandScript(
+          'setTheme',
+          themeKey === undefined ? null : JSON.parse(themeKey)
+        )
+      );
+    }, [themeKey]);
+
+    const fontScaleKey = `${bridgeFontScale}:${resolvedTextZoom}`;
+
+    const bridgeFontScaleKeyRef = useRef(fontScaleKey);
+
+    useEffect(() => {
+      if (bridgeFontScaleKeyRef.current === fontScaleKey) {
+        return;
+      }
+
+      // Also sent when only textZoom changed, so the bridge re-measures.
+      bridgeFontScaleKeyRef.current = fontScaleKey;
+      webViewRef.current?.injectJavaScript(
+        createBridgeCommandScript('setFontScale', bridgeFontScale)
+      );
+    }, [bridgeFontScale, fontScaleKey]);
+
+    const composedInjectedScript = useMemo(
+      () => composeInjectedScript(injectedJavaScript),
+      [injectedJavaScript]
+    );
+
+    // The container is always an Animated.View: toggling `animateHeight` must
+    // not remount the WebView and reload the page.
+    const containerStyles = useMemo(() => {
+      if (sizing === 'width') {
+        return [{ width }, containerStyle];
+      }
+
+      const containerHeight = animatedHeight ?? height;
+
+      if (sizing === 'both') {
+        return [{ height: containerHeight, width }, containerStyle];
+      }
+
+      return [{ height: containerHeight }, containerStyle];
+    }, [animatedHeight, containerStyle, height, sizing, width]);
+
+    const webViewStyles = useMemo(
+      () => [{ backgroundColor: 'transparent' }, style],
+      [style]
+    );
+
+    const webView = (
       <WebView
         {...rest}
+        ref={webViewRef}
         style={webViewStyles}
-        originWhitelist={originWhitelist ?? ['*']}
+        // Outside 'permissive' mode the origins are enforced by
+        // handleShouldStartLoadWithRequest: react-native-webview would open
+        // URLs failing its own whitelist in another app.
+        originWhitelist={isAllowedOrigin ? ['*'] : (originWhitelist ?? ['*'])}
         javaScriptEnabled
+        textZoom={resolvedTextZoom}
         automaticallyAdjustContentInsets={automaticallyAdjustContentInsets}
-        scrollEnabled={scrollEnabled}
-        showsVerticalScrollIndicator={showsVerticalScrollIndicator}
+        scrollEnabled={scrollEnabled ?? isOverflowing}
+        nestedScrollEnabled={nestedScrollEnabled ?? isOverflowing}
+        showsVerticalScrollIndicator={
+          showsVerticalScrollIndicator ?? isOverflowing
+        }
         injectedJavaScript={composedInjectedScript}
         injectedJavaScriptBeforeContentLoaded={composedBeforeContentScript}
         onMessage={handleMessage}
-        source={source}
+        onLoadStart={handleLoadStart}
+        onLoadEnd={handleLoadEnd}
+        onError={handleError}
+        onShouldStartLoadWithRequest={
+          isAllowedOrigin || resolvedLinkBehavior !== 'inline'
+            ? handleShouldStartLoadWithRequest
+            : onShouldStartLoadWithRequest
+        }
+        source={resolvedSource}
       />
-    </View>
-  );
-};
+    );
+
+    const placeholder = renderPlaceholder ? (
+      <PlaceholderOverlay
+        visible={!isMeasured}
+        fadeDuration={placeholderFadeDuration}
+        renderPlaceholder={renderPlaceholder}
+      />
+    ) : null;
+
+    const handleLayout =
+      sizing === 'height' ? handleContainerLayout : undefined;
+
+    return (
+      <Animated.View
+        ref={containerRef}
+        style={containerStyles}
+        onLayout={handleLayout}
+      >
+        {webView}
+        {placeholder}
+      </Animated.View>
+    );
+  }
+);
+
+SizedWebView.displayName = 'SizedWebView';
 
 export default SizedWebView;
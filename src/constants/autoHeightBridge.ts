@@ -1,17 +1,154 @@
+import {
+  BRIDGE_CONFIG_KEY,
+  BRIDGE_GLOBAL_KEY,
+  BRIDGE_MESSAGE_NAMESPACE,
+  BRIDGE_PROTOCOL_VERSION,
+} from './bridgeProtocol';
+
+/**
+ * Timing and safety tunables baked into a generated bridge script.
+ *
+ * Every field is optional; invalid values (negative, non-finite) fall back to
+ * the default.
+ */
+export interface AutoHeightBridgeOptions {
+  /**
+   * Debounce (ms) applied to mutation and resize bursts while media is still loading.
+   *
+   * @default 48
+   */
+  activeDebounce?: number;
+
+  /**
+   * Debounce (ms) applied to mutation and resize bursts once nothing is loading.
+   *
+   * @default 160
+   */
+  idleDebounce?: number;
+
+  /**
+   * First delay (ms) of the fallback timer that re-measures when no observer fired.
+   * The delay grows by 50% after each run, up to `maxFallbackDelay`.
+   *
+   * @default 600
+   */
+  initialFallbackDelay?: number;
+
+  /**
+   * Upper bound (ms) of the fallback timer delay.
+   *
+   * @default 4000
+   */
+  maxFallbackDelay?: number;
+
+  /**
+   * Heights (CSS px) above this value are treated as measurement glitches:
+   * retried a few times, then clamped to the last plausible height.
+   *
+   * @default 120000
+   */
+  maxReasonableHeight?: number;
+
+  /**
+   * Delays (ms) after bootstrap at which the bridge force-measures the page,
+   * catching late layout shifts no observer reports.
+   *
+   * @default [32, 120, 240, 500, 1000, 2000, 3200]
+   */
+  stabilizationDelays?: readonly number[];
+}
+
+/**
+ * Values used for every `AutoHeightBridgeOptions` field that is not provided.
+ */
+export const DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS: Readonly<
+  Required<AutoHeightBridgeOptions>
+> = {
+  activeDebounce: 48,
+  idleDebounce: 160,
+  initialFallbackDelay: 600,
+  maxFallbackDelay: 4000,
+  maxReasonableHeight: 120000,
+  stabilizationDelays: [32, 120, 240, 500, 1000, 2000, 3200],
+};
+
+/**
+ * Returns `value` when it is a finite, non-negative number, `fallback` otherwise.
+ * @internal
+ */
+const toNonNegative = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+
 /**
- * JavaScript bridge injected into the WebView to compute and post its content height.
+ * Generates the JavaScript bridge injected into the WebView to compute and post
+ * its content height, with the given timing tunables.
+ *
  * The script is designed to be idempotent and resilient to repeated injections.
+ * Every report is wrapped in a versioned envelope (see `parseBridgeMessage`) tagged
+ * with the instance id found in `window.__RN_SIZED_WEBVIEW_CONFIG__`.
+ *
+ * @param options - Timing tunables; omitted fields use `DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS`
+ * @returns The bridge script, to be composed after `createBridgeConfigScript`
+ *
+ * @example
+ * ```ts
+ * // Dashboards with heavy DOM churn: debounce longer.
+ * const bridge = createAutoHeightBridge({ idleDebounce: 400 });
+ * ```
  */
-export const AUTO_HEIGHT_BRIDGE = `(() => {
-  var GLOBAL_KEY = '__RN_SIZED_WEBVIEW__';
+export const createAutoHeightBridge = (
+  options: AutoHeightBridgeOptions = {}
+): string => {
+  const defaults = DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS;
+  const activeDebounce = toNonNegative(
+    options.activeDebounce,
+    defaults.activeDebounce
+  );
+  const idleDebounce = toNonNegative(
+    options.idleDebounce,
+    defaults.idleDebounce
+  );
+  const initialFallbackDelay = Math.max(
+    1,
+    toNonNegative(options.initialFallbackDelay, defaults.initialFallbackDelay)
+  );
+  const maxFallbackDelay = Math.max(
+    initialFallbackDelay,
+    toNonNegative(options.maxFallbackDelay, defaults.maxFallbackDelay)
+  );
+  const maxReasonableHeight = Math.max(
+    1,
+    toNonNegative(options.maxReasonableHeight, defaults.maxReasonableHeight)
+  );
+  const stabilizationDelays = (
+    options.stabilizationDelays ?? defaults.stabilizationDelays
+  ).filter((delay) => Number.isFinite(delay) && delay >= 0);
+
+  return `(() => {
+  var GLOBAL_KEY = '${BRIDGE_GLOBAL_KEY}';
+  var CONFIG_KEY = '${BRIDGE_CONFIG_KEY}';
+  var PROTOCOL_NAMESPACE = '${BRIDGE_MESSAGE_NAMESPACE}';
+  var PROTOCOL_VERSION = ${BRIDGE_PROTOCOL_VERSION};
   var WRAPPER_ID = '__RN_SIZED_WEBVIEW_WRAPPER__';
+  var COLLAPSE_STYLE_ID = '__RN_SIZED_WEBVIEW_COLLAPSE_STYLE__';
+  var COLLAPSED_ATTRIBUTE = 'data-rn-sized-webview-collapsed';
+  var BASE_STYLE_ID = '__RN_SIZED_WEBVIEW_BASE_STYLE__';
+  var SCROLLABLE_ATTRIBUTE = 'data-rn-sized-webview-scrollable';
+  var MATCH_STYLE_ID = '__RN_SIZED_WEBVIEW_MATCH_STYLE__';
+  var MATCH_ATTRIBUTE = 'data-rn-sized-webview-match';
+  var COLOR_SCHEME_CLASS_PREFIX = 'rn-color-scheme-';
   var TRACKED_FLAG = '__RN_SIZED_WEBVIEW_MEDIA__';
   var MESSAGE_KEY = '__AUTO_HEIGHT__';
-  var ACTIVE_DEBOUNCE_MS = 48;
-  var IDLE_DEBOUNCE_MS = 160;
-  var INITIAL_FALLBACK_MS = 600;
-  var MAX_FALLBACK_MS = 4000;
-  var MAX_REASONABLE_HEIGHT = 120000;
+  var ACTIVE_DEBOUNCE_MS = ${activeDebounce};
+  var IDLE_DEBOUNCE_MS = ${idleDebounce};
+  var INITIAL_FALLBACK_MS = ${initialFallbackDelay};
+  var MAX_FALLBACK_MS = ${maxFallbackDelay};
+  var MAX_REASONABLE_HEIGHT = ${maxReasonableHeight};
+  var STABILIZATION_DELAYS_MS = ${JSON.stringify(stabilizationDelays)};
+  var DEFAULT_READY_QUIET_WINDOW_MS = 300;
+  var USER_GESTURE_WINDOW_MS = 1000;
 
   if (typeof window === 'undefined' || typeof document === 'undefined') {
     return;
@@ -26,6 +163,69 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     return;
   }
 
+  var config = window[CONFIG_KEY] || {};
+  var INSTANCE_ID =
+    typeof config.instanceId === 'string'
+      ? config.instanceId
+      : 'rnsw-' + Math.random().toString(36).slice(2);
+  var TRACK_WIDTH = config.sizing === 'width' || config.sizing === 'both';
+  var USE_WRAPPER = config.measurementStrategy !== 'document';
+  var DEEP_MEASUREMENT = config.deepMeasurement === true;
+  var MEASURE_TARGET = config.measureTarget;
+  var MEASURE_SELECTOR =
+    typeof MEASURE_TARGET === 'string' && MEASURE_TARGET ? MEASURE_TARGET : null;
+  var MEASURE_FUNCTION = null;
+
+  if (MEASURE_TARGET && typeof MEASURE_TARGET.measure === 'string') {
+    try {
+      MEASURE_FUNCTION = new Function('return (' + MEASURE_TARGET.measure + ');')();
+    } catch (error) {
+      MEASURE_FUNCTION = null;
+    }
+
+    if (typeof MEASURE_FUNCTION !== 'function') {
+      MEASURE_FUNCTION = null;
+    }
+  }
+
+  var ANCHOR_NAVIGATION = config.anchorNavigation === true;
+  var INTERCEPT_LINKS = config.interceptLinks === true;
+  var BLOCK_WINDOW_OPEN = config.blockWindowOpen === true;
+  var BASE_STYLES =
+    typeof config.baseStyles === 'string'
+      ? { preset: config.baseStyles }
+      : config.baseStyles || {};
+  var BASE_PRESET =
+    BASE_STYLES.preset === 'minimal' || BASE_STYLES.preset === 'none'
+      ? BASE_STYLES.preset
+      : 'reset';
+  var PRUNE_CONFIG = config.trailingNodes || {};
+  var PRUNE_ENABLED = config.trailingNodes !== false;
+  var PRUNE_COLLAPSE = PRUNE_CONFIG.mode === 'collapse';
+  var PRUNE_SELECTOR =
+    PRUNE_CONFIG.selectors && typeof PRUNE_CONFIG.selectors.join === 'function'
+      ? PRUNE_CONFIG.selectors.join(', ')
+      : 'br, p';
+
+  var READY_QUIET_WINDOW_MS =
+    typeof config.readyQuietWindow === 'number' &&
+    isFinite(config.readyQuietWindow) &&
+    config.readyQuietWindow >= 0
+      ? config.readyQuietWindow
+      : DEFAULT_READY_QUIET_WINDOW_MS;
+
+  var toMaxHeight = function (value) {
+    return typeof value === 'number' && isFinite(value) && value > 0
+      ? value
+      : 0;
+  };
+
+  var toFontScale = function (value) {
+    return typeof value === 'number' && isFinite(value) && value > 0
+      ? value
+      : 1;
+  };
+
   var queueMicro =
     typeof queueMicrotask === 'function'
       ? queueMicrotask
@@ -57,12 +257,32 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     microtask: false,
     pendingLoads: 0,
     lastHeight: 0,
+    lastWidth: 0,
     anomalyCount: 0,
     fallbackTimer: null,
     fallbackDelay: INITIAL_FALLBACK_MS,
     cleanup: [],
     wrapper: null,
     mediaObserver: null,
+    findMatches: [],
+    findSplits: [],
+    findIndex: -1,
+    findQuery: '',
+    maxHeight: toMaxHeight(config.maxHeight),
+    theme: config.theme || null,
+    fontScale: toFontScale(config.fontScale),
+    fontScaleApplied: false,
+    bootstrapped: false,
+    themeProperties: [],
+    themeColorScheme: null,
+    fontsPending: false,
+    readyTimer: null,
+    ready: false,
+    reason: null,
+    debounceReason: null,
+    lastDetails: {},
+    target: null,
+    targetObserver: null,
   };
 
   window[GLOBAL_KEY] = state;
@@ -108,6 +328,11 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
       state.fallbackTimer = null;
     }
 
+    if (state.readyTimer != null) {
+      clearTimeout(state.readyTimer);
+      state.readyTimer = null;
+    }
+
     for (var index = 0; index < state.cleanup.length; index += 1) {
       try {
         var fn = state.cleanup[index];
@@ -125,11 +350,114 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
   state.refresh = function () {
     ensureWrapper();
-    scheduleMeasure(true);
+    scheduleMeasure(true, 'refresh');
   };
 
   state.destroy = cleanupAll;
 
+  state.setMaxHeight = function (value) {
+    state.maxHeight = toMaxHeight(value);
+    syncScrollable(state.lastHeight);
+  };
+
+  var toCustomProperty = function (name) {
+    if (name.indexOf('--') === 0) {
+      return name;
+    }
+
+    return (
+      '--' +
+      name.replace(/[A-Z]/g, function (letter) {
+        return '-' + letter.toLowerCase();
+      })
+    );
+  };
+
+  var applyTheme = function () {
+    var root = document.documentElement;
+    if (!root) {
+      return;
+    }
+
+    var theme = state.theme || {};
+    var tokens = theme.tokens || {};
+    var properties = [];
+
+    for (var name in tokens) {
+      var value = tokens[name];
+      if (
+        Object.prototype.hasOwnProperty.call(tokens, name) &&
+        (typeof value === 'string' || typeof value === 'number')
+      ) {
+        var property = toCustomProperty(name);
+        root.style.setProperty(property, String(value));
+        properties.push(property);
+      }
+    }
+
+    for (var index = 0; index < state.themeProperties.length; index += 1) {
+      if (properties.indexOf(state.themeProperties[index]) === -1) {
+        root.style.removeProperty(state.themeProperties[index]);
+      }
+    }
+
+    state.themeProperties = properties;
+
+    var colorScheme =
+      theme.colorScheme === 'light' || theme.colorScheme === 'dark'
+        ? theme.colorScheme
+        : null;
+
+    if (state.themeColorScheme) {
+      root.classList.remove(COLOR_SCHEME_CLASS_PREFIX + state.themeColorScheme);
+      root.style.removeProperty('color-scheme');
+    }
+
+    if (colorScheme) {
+      root.classList.add(COLOR_SCHEME_CLASS_PREFIX + colorScheme);
+      root.style.setProperty('color-scheme', colorScheme);
+    }
+
+    state.themeColorScheme = colorScheme;
+  };
+
+  state.setTheme = function (theme) {
+    state.theme = theme || null;
+
+    // Before bootstrap the theme is picked up with the rest of the page setup.
+    if (state.bootstrapped) {
+      applyTheme();
+      scheduleMeasure(true, 'theme');
+    }
+  };
+
+  var applyFontScale = function () {
+    var root = document.documentElement;
+    if (!root) {
+      return;
+    }
+
+    if (state.fontScale !== 1) {
+      var percent = Math.round(state.fontScale * 100) + '%';
+      root.style.setProperty('-webkit-text-size-adjust', percent);
+      root.style.setProperty('text-size-adjust', percent);
+      state.fontScaleApplied = true;
+    } else if (state.fontScaleApplied) {
+      root.style.removeProperty('-webkit-text-size-adjust');
+      root.style.removeProperty('text-size-adjust');
+      state.fontScaleApplied = false;
+    }
+  };
+
+  state.setFontScale = function (value) {
+    state.fontScale = toFontScale(value);
+
+    if (state.bootstrapped) {
+      applyFontScale();
+      scheduleMeasure(true, 'fontScale');
+    }
+  };
+
   var addEvent = function (target, type, handler, options) {
     if (!target || typeof target.addEventListener !== 'function') {
       return function () {};
@@ -217,8 +545,78 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     return false;
   };
 
+  var matchesSelector = function (node, selector) {
+    var matches =
+      node.matches || node.webkitMatchesSelector || node.msMatchesSelector;
+
+    if (!selector || typeof matches !== 'function') {
+      return false;
+    }
+
+    try {
+      return matches.call(node, selector);
+    } catch (error) {
+      return false;
+    }
+  };
+
+  var ensureCollapseStyle = function () {
+    if (document.getElementById(COLLAPSE_STYLE_ID)) {
+      return;
+    }
+
+    var parent = document.head || document.documentElement;
+    if (!parent) {
+      return;
+    }
+
+    var style = document.createElement('style');
+    style.id = COLLAPSE_STYLE_ID;
+    style.textContent =
+      '[' + COLLAPSED_ATTRIBUTE + '] { display: none !important; }';
+    parent.appendChild(style);
+
+    addCleanup(function () {
+      if (style.parentNode) {
+        style.parentNode.removeChild(style);
+      }
+    });
+  };
+
+  var syncCollapsedNodes = function (container, trailing) {
+    var changed = false;
+
+    if (typeof container.querySelectorAll === 'function') {
+      var marked = container.querySelectorAll('[' + COLLAPSED_ATTRIBUTE + ']');
+      for (var index = 0; index < marked.length; index += 1) {
+        if (trailing.indexOf(marked[index]) === -1) {
+          marked[index].removeAttribute(COLLAPSED_ATTRIBUTE);
+          changed = true;
+        }
+      }
+    }
+
+    if (trailing.length) {
+      ensureCollapseStyle();
+    }
+
+    for (var nodeIndex = 0; nodeIndex < trailing.length; nodeIndex += 1) {
+      if (!trailing[nodeIndex].hasAttribute(COLLAPSED_ATTRIBUTE)) {
+        trailing[nodeIndex].setAttribute(COLLAPSED_ATTRIBUTE, '');
+        changed = true;
+      }
+    }
+
+    return changed;
+  };
+
   var pruneTrailingNodes = function (container) {
-    if (!container) {
+    if (!container || !PRUNE_ENABLED) {
+      return;
+    }
+
+    // Without the wrapper the page's nodes are never removed, only collapsed.
+    if (!USE_WRAPPER && !PRUNE_COLLAPSE) {
       return;
     }
 
@@ -235,33 +633,46 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
         return false;
       }
 
-      var tag = (node.tagName || '').toUpperCase();
-      if (tag === 'BR') {
-        return true;
-      }
-
-      if (tag === 'P') {
-        return !hasRenderableContent(node);
-      }
-
-      return false;
+      return (
+        matchesSelector(node, PRUNE_SELECTOR) && !hasRenderableContent(node)
+      );
     };
 
-    var removed = false;
+    var changed = false;
+    var trailing = [];
     var current = container.lastChild;
     while (current) {
-      if (isWhitespaceText(current) || isTrimmableElement(current)) {
-        var previous = current.previousSibling;
-        container.removeChild(current);
+      var previous = current.previousSibling;
+
+      if (isWhitespaceText(current)) {
+        if (!PRUNE_COLLAPSE) {
+          container.removeChild(current);
+          changed = true;
+        }
+        current = previous;
+        continue;
+      }
+
+      if (isTrimmableElement(current)) {
+        if (PRUNE_COLLAPSE) {
+          trailing.push(current);
+        } else {
+          container.removeChild(current);
+          changed = true;
+        }
         current = previous;
-        removed = true;
         continue;
       }
+
       break;
     }
 
-    if (removed) {
-      scheduleMeasure(true);
+    if (PRUNE_COLLAPSE && syncCollapsedNodes(container, trailing)) {
+      changed = true;
+    }
+
+    if (changed) {
+      scheduleMeasure(true, 'prune');
     }
   };
 
@@ -270,6 +681,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
   var markLoading = function () {
     state.pendingLoads += 1;
+    state.ready = false;
     scheduleFallback();
   };
 
@@ -277,6 +689,8 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     if (state.pendingLoads > 0) {
       state.pendingLoads -= 1;
     }
+
+    scheduleReadyCheck();
   };
 
   var readElementHeight = function (element) {
@@ -299,14 +713,290 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     );
   };
 
+  var readElementWidth = function (element) {
+    if (!element) {
+      return 0;
+    }
+
+    var rectWidth = 0;
+    if (typeof element.getBoundingClientRect === 'function') {
+      var rect = element.getBoundingClientRect();
+      rectWidth = rect && typeof rect.width === 'number' ? rect.width : 0;
+    }
+
+    return Math.max(
+      0,
+      rectWidth,
+      element.scrollWidth || 0,
+      element.offsetWidth || 0
+    );
+  };
+
+  var measureWidth = function () {
+    var target = state.wrapper || document.body || document.documentElement;
+    return Math.max(0, Math.ceil(readElementWidth(target)));
+  };
+
+  var readElementBottom = function (element) {
+    var bottom = 0;
+
+    if (typeof element.getBoundingClientRect === 'function') {
+      var rect = element.getBoundingClientRect();
+      var scrollTop =
+        window.pageYOffset ||
+        (document.documentElement && document.documentElement.scrollTop) ||
+        0;
+      var marginBottom = 0;
+
+      if (typeof window.getComputedStyle === 'function') {
+        marginBottom =
+          parseFloat(window.getComputedStyle(element).marginBottom) || 0;
+      }
+
+      bottom = rect ? rect.bottom + scrollTop + marginBottom : 0;
+    }
+
+    return Math.max(0, bottom, readElementHeight(element));
+  };
+
+  var CLIPPING_OVERFLOW = {
+    hidden: true,
+    clip: true,
+    scroll: true,
+    auto: true,
+  };
+
+  var readStyle = function (element) {
+    return typeof window.getComputedStyle === 'function'
+      ? window.getComputedStyle(element)
+      : null;
+  };
+
+  var readBottomInset = function (element) {
+    var style = readStyle(element);
+    if (!style) {
+      return 0;
+    }
+
+    return (
+      (parseFloat(style.paddingBottom) || 0) +
+      (parseFloat(style.borderBottomWidth) || 0)
+    );
+  };
+
+  var measureDescendants = function (root) {
+    var scrollTop =
+      window.pageYOffset ||
+      (document.documentElement && document.documentElement.scrollTop) ||
+      0;
+    var maxBottom = 0;
+    var range =
+      typeof document.createRange === 'function' ? document.createRange() : null;
+
+    // Bare text has no element box of its own, so its line boxes are read
+    // through a Range.
+    var visitText = function (node, clipBottom) {
+      if (
+        !range ||
+        typeof range.getBoundingClientRect !== 'function' ||
+        !node.textContent ||
+        !node.textContent.trim()
+      ) {
+        return;
+      }
+
+      range.selectNodeContents(node);
+      var rect = range.getBoundingClientRect();
+
+      if (rect && (rect.width > 0 || rect.height > 0)) {
+        var bottom = Math.min(rect.bottom, clipBottom);
+
+        if (bottom > maxBottom) {
+          maxBottom = bottom;
+        }
+      }
+    };
+
+    var visit = function (element, clipBottom) {
+      var child = element.firstChild;
+
+      while (child) {
+        if (child.nodeType === 3) {
+          visitText(child, clipBottom);
+          child = child.nextSibling;
+          continue;
+        }
+
+        if (child.nodeType !== 1) {
+          child = child.nextSibling;
+          continue;
+        }
+
+        var style = readStyle(child);
+
+        if (
+          style &&
+          style.display !== 'none' &&
+          style.position !== 'fixed' &&
+          typeof child.getBoundingClientRect === 'function'
+        ) {
+          var rect = child.getBoundingClientRect();
+          var isVisible =
+            style.visibility !== 'hidden' &&
+            style.visibility !== 'collapse' &&
+            (rect.width > 0 || rect.height > 0);
+
+          if (isVisible) {
+            var margin =
+              style.position === 'absolute'
+                ? 0
+                : Math.max(0, parseFloat(style.marginBottom) || 0);
+            var bottom = Math.min(rect.bottom + margin, clipBottom);
+
+            if (bottom > maxBottom) {
+              maxBottom = bottom;
+            }
+          }
+
+          visit(
+            child,
+            CLIPPING_OVERFLOW[style.overflowY] || CLIPPING_OVERFLOW[style.overflow]
+              ? Math.min(clipBottom, rect.bottom)
+              : clipBottom
+          );
+        }
+
+        child = child.nextSibling;
+      }
+    };
+
+    visit(root, Infinity);
+
+    if (maxBottom <= 0) {
+      return 0;
+    }
+
+    var inset = readBottomInset(root);
+    if (document.body && root !== document.body) {
+      inset += readBottomInset(document.body);
+    }
+
+    return Math.max(0, maxBottom + scrollTop + inset);
+  };
+
+  var observeTarget = function (element) {
+    if (state.target === element) {
+      return;
+    }
+
+    if (state.targetObserver && state.target) {
+      try {
+        state.targetObserver.unobserve(state.target);
+      } catch (error) {
+        // no-op
+      }
+    }
+
+    state.target = element;
+
+    if (!element || typeof window.ResizeObserver !== 'function') {
+      return;
+    }
+
+    if (!state.targetObserver) {
+      var observer = new ResizeObserver(function () {
+        requestDebouncedMeasure('resize');
+      });
+
+      state.targetObserver = observer;
+      addCleanup(function () {
+        observer.disconnect();
+        state.targetObserver = null;
+        state.target = null;
+      });
+    }
+
+    try {
+      state.targetObserver.observe(element);
+    } catch (error) {
+      // no-op
+    }
+  };
+
+  var isElement = function (value) {
+    return (
+      !!value &&
+      value.nodeType === 1 &&
+      typeof value.getBoundingClientRect === 'function'
+    );
+  };
+
+  var measureTarget = function () {
+    var result = null;
+
+    if (MEASURE_SELECTOR) {
+      try {
+        result = document.querySelector(MEASURE_SELECTOR);
+      } catch (error) {
+        result = null;
+      }
+    } else if (MEASURE_FUNCTION) {
+      try {
+        result = MEASURE_FUNCTION(document, window);
+      } catch (error) {
+        result = null;
+      }
+    } else {
+      return null;
+    }
+
+    if (isElement(result)) {
+      observeTarget(result);
+      return readElementBottom(result);
+    }
+
+    observeTarget(null);
+
+    return typeof result === 'number' && isFinite(result) && result > 0
+      ? result
+      : null;
+  };
+
   var measureHeight = function () {
     var html = document.documentElement;
     var body = document.body;
+
+    if (USE_WRAPPER) {
+      pruneTrailingNodes(ensureWrapper());
+    } else {
+      pruneTrailingNodes(body);
+    }
+
+    var targetHeight = measureTarget();
+    if (targetHeight !== null) {
+      state.lastDetails = { target: Math.ceil(targetHeight) };
+      return Math.max(0, Math.ceil(targetHeight));
+    }
+
+    var deepRoot = USE_WRAPPER ? ensureWrapper() : body;
+    var deepHeight =
+      DEEP_MEASUREMENT && deepRoot ? measureDescendants(deepRoot) : 0;
+    if (deepHeight > 0) {
+      state.lastDetails = { descendants: Math.ceil(deepHeight) };
+      return Math.ceil(deepHeight);
+    }
+
+    if (!USE_WRAPPER) {
+      // <html> and the scrolling element never report less than the viewport,
+      // so only the bounds of <body> are trusted without a wrapper.
+      var documentHeight = body ? readElementBottom(body) : 0;
+      state.lastDetails = body ? { body: Math.ceil(documentHeight) } : {};
+      return Math.max(0, Math.ceil(documentHeight));
+    }
+
     var wrapper = ensureWrapper();
     var scrollingElement = document.scrollingElement;
 
-    pruneTrailingNodes(wrapper);
-
     var targets = [];
 
     if (wrapper) {
@@ -330,13 +1020,28 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
       targets.push(scrollingElement);
     }
 
+    var details = {};
+    state.lastDetails = details;
+
     if (!targets.length) {
       return 0;
     }
 
     var maxHeight = 0;
     for (var index = 0; index < targets.length; index += 1) {
-      var value = readElementHeight(targets[index]);
+      var target = targets[index];
+      var value = readElementHeight(target);
+
+      if (target === wrapper) {
+        details.wrapper = Math.ceil(value);
+      } else if (target === body) {
+        details.body = Math.ceil(value);
+      } else if (target === html) {
+        details.html = Math.ceil(value);
+      } else {
+        details.scrollingElement = Math.ceil(value);
+      }
+
       if (value > maxHeight) {
         maxHeight = value;
       }
@@ -345,11 +1050,30 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     return Math.max(0, Math.ceil(maxHeight));
   };
 
-  var postHeight = function (height) {
-    if (!height || height <= 0) {
-      return;
-    }
-
+  var postBridgeMessage = function (type, payload) {
+    try {
+      var channel = window.ReactNativeWebView;
+      if (channel && typeof channel.postMessage === 'function') {
+        channel.postMessage(
+          JSON.stringify({
+            namespace: PROTOCOL_NAMESPACE,
+            version: PROTOCOL_VERSION,
+            type: type,
+            instanceId: INSTANCE_ID,
+            payload: payload,
+          })
+        );
+      }
+    } catch (error) {
+      // no-op
+    }
+  };
+
+  var postHeight = function (height, width, reason) {
+    if (!height || height <= 0) {
+      return;
+    }
+
     var sanitized = Math.ceil(height);
 
     if (!isFinite(sanitized) || sanitized <= 0) {
@@ -360,7 +1084,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
       state.anomalyCount += 1;
 
       if (state.anomalyCount <= 5) {
-        scheduleMeasure(true);
+        scheduleMeasure(true, 'retry');
         return;
       }
 
@@ -373,19 +1097,66 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
       state.anomalyCount = 0;
     }
 
-    if (state.lastHeight === sanitized) {
+    var sanitizedWidth = isFinite(width) && width > 0 ? Math.ceil(width) : 0;
+
+    if (state.lastHeight === sanitized && state.lastWidth === sanitizedWidth) {
       return;
     }
 
     state.lastHeight = sanitized;
+    state.lastWidth = sanitizedWidth;
+    state.ready = false;
+    postBridgeMessage('height', {
+      height: sanitized,
+      width: sanitizedWidth,
+      reason: reason,
+      details: state.lastDetails,
+    });
+    scheduleReadyCheck();
+  };
 
-    try {
-      var channel = window.ReactNativeWebView;
-      if (channel && typeof channel.postMessage === 'function') {
-        channel.postMessage(String(sanitized));
+  var scheduleReadyCheck = function () {
+    if (state.readyTimer != null) {
+      clearTimeout(state.readyTimer);
+      state.readyTimer = null;
+    }
+
+    if (state.ready || state.pendingLoads > 0 || state.fontsPending) {
+      return;
+    }
+
+    state.readyTimer = window.setTimeout(function () {
+      state.readyTimer = null;
+
+      if (
+        state.ready ||
+        state.pendingLoads > 0 ||
+        state.fontsPending ||
+        state.lastHeight <= 0
+      ) {
+        return;
       }
-    } catch (error) {
-      // no-op
+
+      state.ready = true;
+      postBridgeMessage('ready', { height: state.lastHeight });
+    }, READY_QUIET_WINDOW_MS);
+  };
+
+  var syncScrollable = function (height) {
+    var html = document.documentElement;
+    if (!html) {
+      return;
+    }
+
+    var scrollable = state.maxHeight > 0 && height > state.maxHeight;
+    if (scrollable === html.hasAttribute(SCROLLABLE_ATTRIBUTE)) {
+      return;
+    }
+
+    if (scrollable) {
+      html.setAttribute(SCROLLABLE_ATTRIBUTE, '');
+    } else {
+      html.removeAttribute(SCROLLABLE_ATTRIBUTE);
     }
   };
 
@@ -405,7 +1176,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
     state.fallbackTimer = window.setTimeout(function () {
       state.fallbackTimer = null;
-      scheduleMeasure(true);
+      scheduleMeasure(true, 'fallback');
       state.fallbackDelay = Math.min(
         MAX_FALLBACK_MS,
         Math.floor(state.fallbackDelay * 1.5)
@@ -416,14 +1187,19 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
   var runMeasure = function () {
     state.frame = null;
+    var reason = state.reason || 'unknown';
+    state.reason = null;
     var height = measureHeight();
     if (height) {
-      postHeight(height);
+      syncScrollable(height);
+      postHeight(height, measureWidth(), reason);
     }
     resetFallback();
   };
 
-  var scheduleMeasure = function (force) {
+  var scheduleMeasure = function (force, reason) {
+    state.reason = reason || state.reason;
+
     if (force) {
       if (state.frame != null) {
         cancelFrame(state.frame);
@@ -450,8 +1226,8 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     return state.pendingLoads > 0 ? ACTIVE_DEBOUNCE_MS : IDLE_DEBOUNCE_MS;
   };
 
-  var debouncedMeasure = function () {
-    scheduleMeasure(false);
+  var debouncedMeasure = function (reason) {
+    scheduleMeasure(false, reason);
 
     if (state.timer != null) {
       clearTimeout(state.timer);
@@ -459,12 +1235,13 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
     state.timer = window.setTimeout(function () {
       state.timer = null;
-      scheduleMeasure(true);
+      scheduleMeasure(true, reason);
     }, getDebounceDelay());
   };
 
-  var requestDebouncedMeasure = function () {
+  var requestDebouncedMeasure = function (reason) {
     scheduleFallback();
+    state.debounceReason = reason;
 
     if (state.microtask) {
       return;
@@ -473,14 +1250,14 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     state.microtask = true;
     queueMicro(function () {
       state.microtask = false;
-      debouncedMeasure();
+      debouncedMeasure(state.debounceReason);
     });
   };
 
   var scheduleMediaMeasure = function () {
-    scheduleMeasure(true);
+    scheduleMeasure(true, 'media');
     requestFrame(function () {
-      scheduleMeasure(true);
+      scheduleMeasure(true, 'media');
     });
   };
 
@@ -652,42 +1429,89 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     }
   };
 
-  var applyBaseStyles = function () {
-    var html = document.documentElement;
-    var body = document.body;
+  var toDeclarations = function (declarations) {
+    var text = '';
+    if (!declarations || typeof declarations !== 'object') {
+      return text;
+    }
 
-    if (html) {
-      if (!html.style.overflow) {
-        html.style.overflow = 'hidden';
-      }
-      if (!html.style.height) {
-        html.style.height = 'auto';
-      }
-      if (!html.style.backgroundColor) {
-        html.style.backgroundColor = 'transparent';
+    for (var property in declarations) {
+      if (
+        Object.prototype.hasOwnProperty.call(declarations, property) &&
+        declarations[property] != null &&
+        declarations[property] !== ''
+      ) {
+        text += property + ': ' + declarations[property] + '; ';
       }
     }
 
-    if (body) {
-      if (!body.style.margin) {
-        body.style.margin = '0';
-      }
-      if (!body.style.padding) {
-        body.style.padding = '0';
-      }
-      if (!body.style.width) {
-        body.style.width = '100%';
-      }
-      if (!body.style.height) {
-        body.style.height = 'auto';
-      }
-      if (!body.style.backgroundColor) {
-        body.style.backgroundColor = 'transparent';
+    return text;
+  };
+
+  var buildBaseStylesheet = function () {
+    var rules = [];
+    var addRule = function (selector, declarations) {
+      var text = toDeclarations(declarations);
+      if (text) {
+        // :where() keeps the specificity at zero, so any page rule wins.
+        rules.push(':where(' + selector + ') { ' + text + '}');
       }
+    };
+    var bodyWidth = TRACK_WIDTH && !USE_WRAPPER ? 'max-content' : null;
+
+    if (BASE_PRESET === 'reset') {
+      addRule('html', {
+        overflow: 'hidden',
+        height: 'auto',
+        'background-color': 'transparent',
+      });
+      addRule('body', {
+        margin: '0',
+        padding: '0',
+        width: bodyWidth || '100%',
+        height: 'auto',
+        'background-color': 'transparent',
+      });
+    } else if (BASE_PRESET === 'minimal') {
+      addRule('html', { height: 'auto' });
+      addRule('body', { height: 'auto', width: bodyWidth });
+    }
+
+    addRule('html', BASE_STYLES.html);
+    addRule('body', BASE_STYLES.body);
+    addRule('html[' + SCROLLABLE_ATTRIBUTE + ']', { overflow: 'auto' });
+
+    return rules.join(' ');
+  };
+
+  var applyBaseStyles = function () {
+    if (document.getElementById(BASE_STYLE_ID)) {
+      return;
+    }
+
+    var parent = document.head || document.documentElement;
+    if (!parent) {
+      return;
     }
+
+    var style = document.createElement('style');
+    style.id = BASE_STYLE_ID;
+    style.textContent = buildBaseStylesheet();
+    // Inserted first so the page's own stylesheets follow it in the cascade.
+    parent.insertBefore(style, parent.firstChild);
+
+    addCleanup(function () {
+      if (style.parentNode) {
+        style.parentNode.removeChild(style);
+      }
+    });
   };
 
   var ensureWrapper = function () {
+    if (!USE_WRAPPER) {
+      return null;
+    }
+
     if (state.wrapper && document.contains(state.wrapper)) {
       return state.wrapper;
     }
@@ -705,7 +1529,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
     var wrapper = document.createElement('div');
     wrapper.id = WRAPPER_ID;
-    wrapper.style.width = '100%';
+    wrapper.style.width = TRACK_WIDTH ? 'max-content' : '100%';
     wrapper.style.boxSizing = 'border-box';
 
     var nodes = [];
@@ -755,7 +1579,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     }
 
     var mutationObserver = new MutationObserver(function (mutations) {
-      requestDebouncedMeasure();
+      requestDebouncedMeasure('mutation');
 
       if (!state.wrapper || !document.contains(state.wrapper)) {
         ensureWrapper();
@@ -774,7 +1598,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
           }
         }
       }
-        pruneTrailingNodes(state.wrapper);
+      pruneTrailingNodes(USE_WRAPPER ? state.wrapper : document.body);
     });
 
     var target = document.documentElement || document.body;
@@ -800,7 +1624,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     }
 
     var resizeObserver = new ResizeObserver(function () {
-      requestDebouncedMeasure();
+      requestDebouncedMeasure('resize');
     });
 
     var wrapper = ensureWrapper();
@@ -831,7 +1655,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     }
 
     var handler = function () {
-      requestDebouncedMeasure();
+      requestDebouncedMeasure('viewport');
     };
 
     addEvent(viewport, 'resize', handler);
@@ -845,7 +1669,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     }
 
     var handler = function () {
-      scheduleMeasure(true);
+      scheduleMeasure(true, 'font');
     };
 
     if (typeof fonts.addEventListener === 'function') {
@@ -854,13 +1678,25 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     }
 
     if (fonts.ready && typeof fonts.ready.then === 'function') {
-      fonts.ready.then(handler).catch(handler);
+      state.fontsPending = true;
+
+      var settle = function () {
+        state.fontsPending = false;
+        handler();
+        scheduleReadyCheck();
+      };
+
+      fonts.ready.then(settle).catch(settle);
     }
   };
 
   var observeGlobalEvents = function () {
-    var handler = function () {
-      scheduleMeasure(true);
+    var handler = function (event) {
+      var type = event && event.type;
+      scheduleMeasure(
+        true,
+        type === 'resize' || type === 'orientationchange' ? 'viewport' : 'load'
+      );
     };
 
     var events = ['load', 'pageshow', 'orientationchange', 'resize'];
@@ -879,7 +1715,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
       }
 
       if (event.data === MESSAGE_KEY) {
-        scheduleMeasure(true);
+        scheduleMeasure(true, 'message');
         return;
       }
 
@@ -887,7 +1723,7 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
         try {
           var parsed = JSON.parse(event.data);
           if (parsed && parsed.topic === MESSAGE_KEY) {
-            scheduleMeasure(true);
+            scheduleMeasure(true, 'message');
           }
         } catch (error) {
           // Ignore non-JSON payloads.
@@ -896,12 +1732,577 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     });
   };
 
+  var isInternallyScrollable = function () {
+    var html = document.documentElement;
+    return !!html && html.hasAttribute(SCROLLABLE_ATTRIBUTE);
+  };
+
+  // The viewport is the SizedWebView container, so viewport coordinates are
+  // container coordinates, including once a page past maxHeight has scrolled.
+  var readElementRect = function (element) {
+    var rect = element.getBoundingClientRect();
+
+    return {
+      x: rect.left,
+      y: rect.top,
+      width: rect.width,
+      height: rect.height,
+    };
+  };
+
+  state.getElementRect = function (requestId, selector) {
+    var rect = null;
+
+    try {
+      var element = document.querySelector(selector);
+      if (isElement(element)) {
+        rect = readElementRect(element);
+      }
+    } catch (error) {
+      // Invalid selectors resolve like unmatched ones.
+    }
+
+    postBridgeMessage('elementRect', { requestId: requestId, rect: rect });
+  };
+
+  var findAnchorTarget = function (hash) {
+    if (!hash || hash.charAt(0) !== '#' || hash.length < 2) {
+      return null;
+    }
+
+    var name = hash.slice(1);
+    try {
+      name = decodeURIComponent(name);
+    } catch (error) {
+      // Keep the raw fragment.
+    }
+
+    var target = document.getElementById(name);
+    if (!target && typeof document.getElementsByName === 'function') {
+      target = document.getElementsByName(name)[0] || null;
+    }
+
+    return isElement(target) ? target : null;
+  };
+
+  var postAnchor = function (element, hash) {
+    postBridgeMessage('anchor', {
+      offsetY: Math.max(0, Math.round(readElementRect(element).y)),
+      hash: hash || null,
+    });
+  };
+
+  var stripHash = function (url) {
+    var index = String(url).indexOf('#');
+    return index === -1 ? String(url) : String(url).slice(0, index);
+  };
+
+  var FIND_SKIPPED_TAGS = {
+    SCRIPT: true,
+    STYLE: true,
+    NOSCRIPT: true,
+    TEMPLATE: true,
+    TEXTAREA: true,
+  };
+
+  // Text inside these elements flows into its neighbours, so a match may span
+  // them; any other element ends the run of text being searched.
+  var FIND_INLINE_TAGS = {
+    A: true,
+    ABBR: true,
+    B: true,
+    BDI: true,
+    BDO: true,
+    CITE: true,
+    CODE: true,
+    DATA: true,
+    DEL: true,
+    DFN: true,
+    EM: true,
+    FONT: true,
+    I: true,
+    INS: true,
+    KBD: true,
+    LABEL: true,
+    MARK: true,
+    Q: true,
+    S: true,
+    SAMP: true,
+    SMALL: true,
+    SPAN: true,
+    STRONG: true,
+    SUB: true,
+    SUP: true,
+    TIME: true,
+    U: true,
+    VAR: true,
+  };
+
+  var ensureMatchStyle = function () {
+    if (document.getElementById(MATCH_STYLE_ID)) {
+      return;
+    }
+
+    var parent = document.head || document.documentElement;
+    if (!parent) {
+      return;
+    }
+
+    var style = document.createElement('style');
+    style.id = MATCH_STYLE_ID;
+    style.textContent =
+      'mark[' + MATCH_ATTRIBUTE + '] { background-color: var(--rn-sized-webview-match, #FFE066); color: inherit; } ' +
+      'mark[' + MATCH_ATTRIBUTE + '="active"] { background-color: var(--rn-sized-webview-active-match, #FF9632); }';
+    parent.appendChild(style);
+
+    addCleanup(function () {
+      if (style.parentNode) {
+        style.parentNode.removeChild(style);
+      }
+    });
+  };
+
+  var clearMatches = function () {
+    var matches = state.findMatches;
+    var splits = state.findSplits;
+    state.findMatches = [];
+    state.findSplits = [];
+    state.findIndex = -1;
+
+    for (var index = 0; index < matches.length; index += 1) {
+      for (var part = 0; part < matches[index].length; part += 1) {
+        var mark = matches[index][part];
+        var parent = mark.parentNode;
+        if (!parent) {
+          continue;
+        }
+
+        while (mark.firstChild) {
+          parent.insertBefore(mark.firstChild, mark);
+        }
+        parent.removeChild(mark);
+      }
+    }
+
+    // Joins the pieces of each split text node back together. The page's own
+    // adjacent text nodes are left alone, unlike with normalize().
+    for (var split = 0; split < splits.length; split += 1) {
+      var pieces = splits[split];
+      var anchor = pieces[0];
+
+      for (var cursor = 1; cursor < pieces.length; cursor += 1) {
+        var piece = pieces[cursor];
+        if (piece.parentNode && piece.previousSibling === anchor) {
+          anchor.nodeValue += piece.nodeValue;
+          piece.parentNode.removeChild(piece);
+        } else {
+          anchor = piece;
+        }
+      }
+    }
+  };
+
+  var isWordCharacter = function (character) {
+    return !!character && /[A-Za-z0-9_]/.test(character);
+  };
+
+  var isHiddenText = function (node) {
+    var element = node.parentNode;
+    var style = readStyle(element);
+    if (style && (style.visibility === 'hidden' || style.visibility === 'collapse')) {
+      return true;
+    }
+
+    while (element && element.nodeType === 1) {
+      style = readStyle(element);
+      if (style && style.display === 'none') {
+        return true;
+      }
+      element = element.parentNode;
+    }
+
+    return false;
+  };
+
+  // Lowercases text one character at a time, keeping the index in the original
+  // text each folded character comes from: lowercasing can change the length
+  // (İ becomes i plus a combining dot), so folded offsets cannot be reused.
+  var foldText = function (text) {
+    var folded = '';
+    var indexes = [];
+    var index = 0;
+
+    while (index < text.length) {
+      var code = text.charCodeAt(index);
+      var next = text.charCodeAt(index + 1);
+      var size = code >= 0xd800 && code <= 0xdbff && next >= 0xdc00 && next <= 0xdfff ? 2 : 1;
+      var lower = text.substr(index, size).toLowerCase();
+
+      for (var unit = 0; unit < lower.length; unit += 1) {
+        indexes.push(index);
+      }
+      folded += lower;
+      index += size;
+    }
+    indexes.push(text.length);
+
+    return { text: folded, indexes: indexes };
+  };
+
+  var findInRun = function (run, query, caseSensitive, wholeWord, matches) {
+    var text = run.text;
+    var folded = caseSensitive ? null : foldText(text);
+    var haystack = folded ? folded.text : text;
+    var needle = caseSensitive ? query : query.toLowerCase();
+    var hidden = [];
+    var position = haystack.indexOf(needle);
+
+    var toIndex = function (offset) {
+      return folded ? folded.indexes[offset] : offset;
+    };
+    var isBoundary = function (offset) {
+      return !folded || offset === 0 || folded.indexes[offset] !== folded.indexes[offset - 1];
+    };
+
+    while (position !== -1) {
+      var end = position + needle.length;
+      var start = toIndex(position);
+      var stop = toIndex(end);
+      var accepted =
+        isBoundary(position) &&
+        isBoundary(end) &&
+        (!wholeWord ||
+          (!isWordCharacter(text.charAt(start - 1)) && !isWordCharacter(text.charAt(stop))));
+      var segments = [];
+
+      for (var index = 0; accepted && index < run.nodes.length; index += 1) {
+        var nodeStart = run.starts[index];
+        var nodeEnd = nodeStart + run.nodes[index].nodeValue.length;
+        if (nodeEnd <= start || nodeStart >= stop) {
+          continue;
+        }
+
+        if (hidden[index] === undefined) {
+          hidden[index] = isHiddenText(run.nodes[index]);
+        }
+        // Hidden text has no position to scroll to, so the whole match is skipped.
+        if (hidden[index]) {
+          accepted = false;
+        }
+
+        segments.push({
+          node: run.nodes[index],
+          start: Math.max(start, nodeStart) - nodeStart,
+          end: Math.min(stop, nodeEnd) - nodeStart,
+        });
+      }
+
+      if (accepted && segments.length) {
+        matches.push(segments);
+      }
+      position = haystack.indexOf(needle, accepted ? end : position + 1);
+    }
+  };
+
+  var collectMatches = function (root, query, caseSensitive, wholeWord) {
+    var matches = [];
+    var run = null;
+
+    var closeRun = function () {
+      if (run) {
+        findInRun(run, query, caseSensitive, wholeWord, matches);
+      }
+      run = null;
+    };
+
+    var findTextContainer = function (node) {
+      var container = node.parentNode;
+      while (container && container !== root && FIND_INLINE_TAGS[container.nodeName]) {
+        container = container.parentNode;
+      }
+      return container;
+    };
+
+    var walker = document.createTreeWalker(root, 5, {
+      acceptNode: function (node) {
+        return FIND_SKIPPED_TAGS[node.nodeName] ? 2 : 1;
+      },
+    });
+
+    var node = walker.nextNode();
+    while (node) {
+      if (node.nodeType === 1) {
+        if (!FIND_INLINE_TAGS[node.nodeName]) {
+          closeRun();
+        }
+      } else {
+        var container = findTextContainer(node);
+        if (run && run.container !== container) {
+          closeRun();
+        }
+        if (!run) {
+          run = { container: container, nodes: [], starts: [], text: '' };
+        }
+
+        run.nodes.push(node);
+        run.starts.push(run.text.length);
+        run.text += node.nodeValue || '';
+      }
+      node = walker.nextNode();
+    }
+    closeRun();
+
+    return matches;
+  };
+
+  var highlightMatches = function (matches) {
+    var highlighted = [];
+    var segments = [];
+
+    for (var index = 0; index < matches.length; index += 1) {
+      highlighted.push([]);
+      for (var part = 0; part < matches[index].length; part += 1) {
+        segments.push({ segment: matches[index][part], match: index, part: part });
+      }
+    }
+
+    // Segments are in document order, so the ones sharing a text node are
+    // adjacent; each node is split from its end so earlier offsets stay valid.
+    var last = segments.length - 1;
+    while (last >= 0) {
+      var node = segments[last].segment.node;
+      var pieces = [];
+      var first = last;
+      while (first > 0 && segments[first - 1].segment.node === node) {
+        first -= 1;
+      }
+
+      for (var cursor = last; cursor >= first; cursor -= 1) {
+        var entry = segments[cursor];
+        if (entry.segment.end < node.nodeValue.length) {
+          pieces.unshift(node.splitText(entry.segment.end));
+        }
+
+        var matched = entry.segment.start > 0 ? node.splitText(entry.segment.start) : node;
+        if (matched !== node) {
+          pieces.unshift(matched);
+        }
+
+        var mark = document.createElement('mark');
+        mark.setAttribute(MATCH_ATTRIBUTE, '');
+        matched.parentNode.insertBefore(mark, matched);
+        mark.appendChild(matched);
+        highlighted[entry.match][entry.part] = mark;
+      }
+
+      if (pieces.length) {
+        pieces.unshift(node);
+        state.findSplits.push(pieces);
+      }
+      last = first - 1;
+    }
+
+    return highlighted;
+  };
+
+  var postFindResult = function (requestId) {
+    var offsets = [];
+    for (var index = 0; index < state.findMatches.length; index += 1) {
+      var marks = state.findMatches[index];
+      for (var part = 0; part < marks.length; part += 1) {
+        marks[part].setAttribute(MATCH_ATTRIBUTE, index === state.findIndex ? 'active' : '');
+      }
+      offsets.push(Math.max(0, Math.round(readElementRect(marks[0]).y)));
+    }
+
+    postBridgeMessage('findResult', {
+      requestId: requestId,
+      query: state.findQuery,
+      count: offsets.length,
+      offsets: offsets,
+      activeIndex: state.findIndex,
+    });
+  };
+
+  state.find = function (requestId, query, caseSensitive, wholeWord) {
+    clearMatches();
+    state.findQuery = typeof query === 'string' ? query : '';
+
+    var root = USE_WRAPPER ? ensureWrapper() : document.body;
+    if (state.findQuery && root && typeof document.createTreeWalker === 'function') {
+      ensureMatchStyle();
+      state.findMatches = highlightMatches(
+        collectMatches(root, state.findQuery, !!caseSensitive, !!wholeWord)
+      );
+      state.findIndex = state.findMatches.length ? 0 : -1;
+    }
+
+    postFindResult(requestId);
+  };
+
+  state.findStep = function (requestId, step) {
+    var count = state.findMatches.length;
+    if (count) {
+      state.findIndex = (((state.findIndex + step) % count) + count) % count;
+    }
+
+    postFindResult(requestId);
+  };
+
+  state.clearFind = function () {
+    clearMatches();
+    state.findQuery = '';
+  };
+
+  var findClickedLink = function (event) {
+    if (!event || event.defaultPrevented || event.button) {
+      return null;
+    }
+
+    var node = event.target;
+    while (node && node.nodeType !== 1) {
+      node = node.parentNode;
+    }
+
+    return node && typeof node.closest === 'function'
+      ? node.closest('a[href]')
+      : null;
+  };
+
+  var interceptAnchorNavigation = function () {
+    // The page cannot scroll itself while it is laid out at full height, so
+    // same-document navigation is reported for the native side to scroll.
+    addEvent(document, 'click', function (event) {
+      var link = findClickedLink(event);
+      if (
+        !link ||
+        !link.hash ||
+        isInternallyScrollable() ||
+        (link.target && link.target !== '_self') ||
+        stripHash(link.href) !== stripHash(window.location.href)
+      ) {
+        return;
+      }
+
+      var target = findAnchorTarget(link.hash);
+      if (!target) {
+        return;
+      }
+
+      event.preventDefault();
+      postAnchor(target, link.hash);
+    });
+
+    addEvent(window, 'hashchange', function () {
+      var hash = window.location.hash;
+      var target = findAnchorTarget(hash);
+      if (target && !isInternallyScrollable()) {
+        postAnchor(target, hash);
+      }
+    });
+
+    var prototype = window.Element && window.Element.prototype;
+    if (!prototype || typeof prototype.scrollIntoView !== 'function') {
+      return;
+    }
+
+    var nativeScrollIntoView = prototype.scrollIntoView;
+    prototype.scrollIntoView = function () {
+      if (isInternallyScrollable()) {
+        return nativeScrollIntoView.apply(this, arguments);
+      }
+
+      postAnchor(this, null);
+    };
+
+    addCleanup(function () {
+      prototype.scrollIntoView = nativeScrollIntoView;
+    });
+  };
+
+  var resolveUrl = function (url) {
+    var anchor = document.createElement('a');
+    anchor.href = String(url);
+    return anchor.href;
+  };
+
+  var interceptLinks = function () {
+    // Registered after the anchor listener, which claims same-document links
+    // first. Links into the current document, including a bare "#", stay in
+    // the page.
+    addEvent(document, 'click', function (event) {
+      var link = findClickedLink(event);
+      if (
+        !link ||
+        !link.href ||
+        /^javascript:/i.test(link.href) ||
+        stripHash(link.href) === stripHash(window.location.href)
+      ) {
+        return;
+      }
+
+      event.preventDefault();
+
+      // Page scripts can click links too: only user taps leave the page.
+      if (!event.isTrusted) {
+        return;
+      }
+
+      postBridgeMessage('link', {
+        url: link.href,
+        target: link.target || null,
+        text: (link.textContent || '').trim(),
+      });
+    });
+  };
+
+  var interceptWindowOpen = function () {
+    var nativeOpen = window.open;
+    var lastUserGestureAt = -Infinity;
+    var recordUserGesture = function (event) {
+      if (event.isTrusted) {
+        lastUserGestureAt = Date.now();
+      }
+    };
+
+    addEvent(document, 'click', recordUserGesture, true);
+    addEvent(document, 'keydown', recordUserGesture, true);
+    addEvent(document, 'touchend', recordUserGesture, true);
+
+    // Like a browser's pop-up blocker, only forwards pop-ups that follow a
+    // user gesture.
+    window.open = function (url, target) {
+      if (!url) {
+        return null;
+      }
+
+      if (BLOCK_WINDOW_OPEN) {
+        postBridgeMessage('blockedNavigation', {
+          url: resolveUrl(url),
+          reason: 'window.open',
+        });
+      } else if (Date.now() - lastUserGestureAt <= USER_GESTURE_WINDOW_MS) {
+        postBridgeMessage('link', {
+          url: resolveUrl(url),
+          target: target || '_blank',
+          text: '',
+        });
+      }
+
+      return null;
+    };
+
+    addCleanup(function () {
+      window.open = nativeOpen;
+    });
+  };
+
   var queueStabilization = function () {
-    var delays = [32, 120, 240, 500, 1000, 2000, 3200];
+    var delays = STABILIZATION_DELAYS_MS;
     for (var index = 0; index < delays.length; index += 1) {
       (function (delay) {
         scheduleTimeout(function () {
-          scheduleMeasure(true);
+          scheduleMeasure(true, 'stabilization');
         }, delay);
       })(delays[index]);
     }
@@ -909,8 +2310,11 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
 
   var bootstrap = function () {
     applyBaseStyles();
+    applyTheme();
+    applyFontScale();
+    state.bootstrapped = true;
     var wrapper = ensureWrapper();
-    pruneTrailingNodes(wrapper);
+    pruneTrailingNodes(USE_WRAPPER ? wrapper : document.body);
     scanForMedia(wrapper || document);
     observeMutations();
     observeResize();
@@ -921,9 +2325,29 @@ export const AUTO_HEIGHT_BRIDGE = `(() => {
     queueStabilization();
     addEvent(window, 'unload', cleanupAll);
 
-    scheduleMeasure(true);
+    scheduleMeasure(true, 'initial');
     scheduleFallback();
   };
 
+  if (ANCHOR_NAVIGATION) {
+    interceptAnchorNavigation();
+  }
+
+  if (INTERCEPT_LINKS) {
+    interceptLinks();
+  }
+
+  if (INTERCEPT_LINKS || BLOCK_WINDOW_OPEN) {
+    interceptWindowOpen();
+  }
+
   ensureDomReady(bootstrap);
 })();`;
+};
+
+/**
+ * JavaScript bridge generated with the default options
+ * (`createAutoHeightBridge()`), injected by every `SizedWebView` that does not
+ * set `bridgeOptions`.
+ */
+export const AUTO_HEIGHT_BRIDGE = createAutoHeightBridge();
@@ -0,0 +1,26 @@
+/**
+ * Namespace stamped on every message emitted by the auto-height bridge.
+ *
+ * Lets `SizedWebView` tell its own traffic apart from messages posted by the page.
+ */
+export const BRIDGE_MESSAGE_NAMESPACE = '__RN_SIZED_WEBVIEW_MESSAGE__';
+
+/**
+ * Version of the envelope format shared by the bridge and the native side.
+ *
+ * Bump whenever the shape of `BridgeMessage` changes in a non-compatible way.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+/**
+ * Global key the bridge reads its per-instance configuration from.
+ * @internal
+ */
+export const BRIDGE_CONFIG_KEY = '__RN_SIZED_WEBVIEW_CONFIG__';
+
+/**
+ * Global key under which the bridge exposes its runtime state and commands
+ * (`refresh`, `destroy`) inside the page.
+ * @internal
+ */
+export const BRIDGE_GLOBAL_KEY = '__RN_SIZED_WEBVIEW__';
@@ -1,4 +1,58 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Animated, Easing, LayoutAnimation } from 'react-native';
+
+import type { HeightCache } from '../utils/heightCache';
+
+/**
+ * Animates height changes with `Animated.timing`.
+ */
+export interface HeightTimingAnimation {
+  type?: 'timing';
+  /** Duration in milliseconds. @default 220 */
+  duration?: number;
+  /** Easing function. @default Easing.out(Easing.cubic) */
+  easing?: (value: number) => number;
+}
+
+/**
+ * Animates height changes with `Animated.spring`.
+ */
+export interface HeightSpringAnimation {
+  type: 'spring';
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+  overshootClamping?: boolean;
+}
+
+/**
+ * Animates height changes with `LayoutAnimation`, which also animates the
+ * siblings pushed around by the container.
+ */
+export interface HeightLayoutAnimation {
+  type: 'layout';
+  /** Duration in milliseconds. @default 220 */
+  duration?: number;
+}
+
+/**
+ * Animation applied when the committed height changes.
+ */
+export type HeightAnimation =
+  HeightTimingAnimation | HeightSpringAnimation | HeightLayoutAnimation;
+
+/**
+ * Lifecycle of the content hosted by the WebView.
+ *
+ * - `'idle'`: nothing has started loading yet
+ * - `'loading'`: the WebView started loading a page
+ * - `'measuring'`: the bridge is reporting sizes that are still changing
+ * - `'stable'`: no new size was reported for a short quiet window
+ * - `'error'`: the page failed to load (cleared by the next load start)
+ * - `'timeout'`: the content did not become stable within `statusTimeout`
+ */
+export type AutoHeightStatus =
+  'idle' | 'loading' | 'measuring' | 'stable' | 'error' | 'timeout';
 
 /**
  * Configuration options for the useAutoHeight hook.
@@ -16,11 +70,22 @@ export interface UseAutoHeightOptions {
    */
   minHeight: number;
 
+  /**
+   * Maximum height (in dp/points) for the WebView container.
+   *
+   * When the measured content is taller, the container height is clamped to
+   * `maxHeight` and `isOverflowing` becomes `true` so the content can scroll
+   * inside the WebView instead. `minHeight` wins if it is larger.
+   *
+   * @default undefined (no upper bound)
+   */
+  maxHeight?: number;
+
   /**
    * Optional callback triggered whenever a new height is committed.
    *
    * This callback fires after the height has been validated, throttled by the
-   * HEIGHT_DIFF_THRESHOLD, and scheduled for the next animation frame.
+   * SIZE_DIFF_THRESHOLD, and scheduled for the next animation frame.
    *
    * Use this callback for:
    * - Analytics or logging height changes
@@ -39,6 +104,77 @@ export interface UseAutoHeightOptions {
    * ```
    */
   onHeightChange?: (height: number) => void;
+
+  /**
+   * Optional callback triggered whenever the committed content size changes,
+   * mirroring ScrollView's `onContentSizeChange`.
+   *
+   * @param width - The committed content width in dp/points (0 until first reported)
+   * @param height - The committed content height in dp/points, before `maxHeight` clamping
+   */
+  onContentSizeChange?: (width: number, height: number) => void;
+
+  /**
+   * Optional callback triggered when the content starts or stops exceeding `maxHeight`.
+   *
+   * @param isOverflowing - Whether the container is currently clamped
+   */
+  onOverflowChange?: (isOverflowing: boolean) => void;
+
+  /**
+   * Opt-in animation for height changes.
+   *
+   * - `true`: 220ms `Animated.timing` with a cubic ease-out
+   * - `HeightAnimation`: timing, spring or `LayoutAnimation` configuration
+   *
+   * Timing and spring animations drive `animatedHeight`; layout animations keep
+   * using `height`. The first measurement is always applied immediately so the
+   * initial layout does not animate from `minHeight`.
+   *
+   * @default false
+   *
+   * @example
+   * ```ts
+   * useAutoHeight({ minHeight: 0, animateHeight: { type: 'spring', damping: 18 } });
+   * ```
+   */
+  animateHeight?: boolean | HeightAnimation;
+
+  /**
+   * Cache used to pre-size the container from a previously committed height.
+   *
+   * When both `heightCache` and `cacheKey` are provided, the initial height is
+   * read from the cache and every content height the bridge measures is written back.
+   * A later `cacheKey` change applies the cached height for the new key, if any.
+   * Caches exposing `hydrate()` are hydrated on mount; the hydrated height is
+   * applied unless the bridge has already reported a measurement.
+   *
+   * @default undefined (no caching)
+   */
+  heightCache?: HeightCache;
+
+  /**
+   * Key identifying the content in `heightCache`, typically derived from the
+   * source and the layout width (see `createHeightCacheKey`).
+   */
+  cacheKey?: string;
+
+  /**
+   * Optional callback triggered whenever `status` changes.
+   *
+   * @param status - The new lifecycle status
+   */
+  onStatusChange?: (status: AutoHeightStatus) => void;
+
+  /**
+   * Time (ms) after a load start within which the content must become
+   * `'stable'` before `status` switches to `'timeout'`. `0` disables the timeout.
+   *
+   * A measurement arriving after the timeout resumes the regular lifecycle.
+   *
+   * @default 10000
+   */
+  statusTimeout?: number;
 }
 
 /**
@@ -52,6 +188,7 @@ export interface UseAutoHeightResult {
    *
    * This value is:
    * - At least `minHeight` (respects minimum)
+   * - At most `maxHeight` when provided (see `isOverflowing`)
    * - Updated smoothly using requestAnimationFrame
    * - Batched to avoid excessive re-renders
    * - Only committed if change exceeds 1dp threshold
@@ -79,20 +216,213 @@ export interface UseAutoHeightResult {
    * const { height, setHeightFromPayload } = useAutoHeight({ minHeight: 100 });
    *
    * const handleMessage = (event) => {
-   *   setHeightFromPayload(event.nativeEvent.data);
+   *   const message = parseBridgeMessage(event.nativeEvent.data);
+   *   if (message?.type === 'height') {
+   *     setHeightFromPayload(message.payload.height);
+   *   }
    * };
    * ```
    */
   setHeightFromPayload: (rawValue: unknown) => void;
+
+  /**
+   * The intrinsic content width reported by the bridge, in dp/points.
+   *
+   * `undefined` until the bridge reports a first width. Follows the same
+   * validation, 1dp threshold and frame batching as `height`.
+   */
+  width: number | undefined;
+
+  /**
+   * Parser and dispatcher for incoming width payloads from the WebView bridge.
+   *
+   * Mirrors `setHeightFromPayload`; invalid inputs are silently ignored.
+   *
+   * @param rawValue - Any value received from the WebView bridge
+   */
+  setWidthFromPayload: (rawValue: unknown) => void;
+
+  /**
+   * Whether the measured content is taller than `maxHeight`, i.e. the container
+   * is clamped and the content should scroll inside the WebView.
+   */
+  isOverflowing: boolean;
+
+  /**
+   * Animated counterpart of `height`, defined when `animateHeight` uses a timing
+   * or spring animation. Bind it to an `Animated.View` height.
+   */
+  animatedHeight: Animated.Value | undefined;
+
+  /**
+   * Whether the bridge has reported a first valid height through
+   * `setHeightFromPayload`. Flips to `true` on the frame that commits it, and
+   * stays `false` while the container only reflects `minHeight` or a cached height.
+   */
+  isMeasured: boolean;
+
+  /**
+   * Current lifecycle status, driven by the `markLoad*` notifiers and by
+   * incoming height payloads.
+   *
+   * ```
+   * idle → loading → measuring → stable
+   *            ↘ error   ↘ timeout
+   * ```
+   */
+  status: AutoHeightStatus;
+
+  /**
+   * Notifies the hook that the WebView started loading (wire to `onLoadStart`).
+   */
+  markLoadStart: () => void;
+
+  /**
+   * Notifies the hook that the WebView finished loading (wire to `onLoadEnd`).
+   */
+  markLoadEnd: () => void;
+
+  /**
+   * Notifies the hook that the WebView failed to load (wire to `onError`).
+   */
+  markLoadError: () => void;
 }
 
 /**
- * Threshold (in dp) below which height changes are ignored.
+ * Reads a valid cached content height, if caching is configured.
+ * @internal
+ */
+const readCachedHeight = (
+  heightCache: HeightCache | undefined,
+  cacheKey: string | undefined
+): number | undefined =>
+  heightCache && cacheKey
+    ? toPositiveNumber(heightCache.get(cacheKey))
+    : undefined;
+
+/**
+ * Default duration (ms) of height animations.
+ * @internal
+ */
+const DEFAULT_ANIMATION_DURATION = 220;
+
+/**
+ * Normalises the `animateHeight` option into an animation config.
+ * @internal
+ */
+const resolveHeightAnimation = (
+  animateHeight: boolean | HeightAnimation | undefined
+): HeightAnimation | undefined => {
+  if (!animateHeight) {
+    return undefined;
+  }
+
+  return animateHeight === true ? { type: 'timing' } : animateHeight;
+};
+
+/**
+ * Fields of every `HeightAnimation` variant, read off a resolved config so it
+ * can be rebuilt from primitives.
+ * @internal
+ */
+interface HeightAnimationFields {
+  type?: HeightAnimation['type'];
+  duration?: number;
+  easing?: (value: number) => number;
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+  overshootClamping?: boolean;
+}
+
+/**
+ * Creates the `Animated` animation driving `value` towards `toValue`.
+ * @internal
+ */
+const createHeightAnimation = (
+  value: Animated.Value,
+  toValue: number,
+  animation: HeightTimingAnimation | HeightSpringAnimation
+): Animated.CompositeAnimation => {
+  if (animation.type === 'spring') {
+    return Animated.spring(value, {
+      toValue,
+      stiffness: animation.stiffness,
+      damping: animation.damping,
+      mass: animation.mass,
+      overshootClamping: animation.overshootClamping,
+      useNativeDriver: false,
+    });
+  }
+
+  return Animated.timing(value, {
+    toValue,
+    duration: animation.duration ?? DEFAULT_ANIMATION_DURATION,
+    easing: animation.easing ?? Easing.out(Easing.cubic),
+    useNativeDriver: false,
+  });
+};
+
+/**
+ * Clamps a content height to the optional `maxHeight` (`minHeight` wins on conflict).
+ * @internal
+ */
+const clampHeight = (
+  contentHeight: number,
+  minHeight: number,
+  maxHeight: number | undefined
+): number =>
+  typeof maxHeight === 'number'
+    ? Math.min(contentHeight, Math.max(Math.ceil(maxHeight), minHeight))
+    : contentHeight;
+
+/**
+ * Default value (ms) of the `statusTimeout` option.
+ * @internal
+ */
+const DEFAULT_STATUS_TIMEOUT = 10000;
+
+/**
+ * Quiet window (ms) without new payloads after which the status becomes `'stable'`.
+ * @internal
+ */
+const STABLE_STATUS_DELAY = 250;
+
+/**
+ * Size waiting to be committed on the next animation frame.
+ * @internal
+ */
+interface PendingSize {
+  height?: number;
+  width?: number;
+  /** Set when the first valid bridge payload is part of this commit. */
+  measured?: boolean;
+  /** Content height reported by the bridge, written to the height cache. */
+  reportedHeight?: number;
+}
+
+/**
+ * Threshold (in dp) below which height and width changes are ignored.
  *
  * Prevents excessive re-renders from minor content layout fluctuations.
  * @internal
  */
-const HEIGHT_DIFF_THRESHOLD = 1;
+const SIZE_DIFF_THRESHOLD = 1;
+
+/**
+ * Coerces a bridge payload into a finite positive number.
+ * @internal
+ */
+const toPositiveNumber = (rawValue: unknown): number | undefined => {
+  const numericValue =
+    typeof rawValue === 'number' ? rawValue : Number(rawValue);
+
+  if (!Number.isFinite(numericValue) || numericValue <= 0) {
+    return undefined;
+  }
+
+  return numericValue;
+};
 
 /**
  * React hook for managing automatic WebView height calculation and updates.
@@ -107,6 +437,10 @@ const HEIGHT_DIFF_THRESHOLD = 1;
  *
  * ## Features
  * - 🎯 Enforces minimum height to prevent shrinking below acceptable bounds
+ * - 📏 Optionally clamps to a maximum height and reports overflow
+ * - 🎞️ Opt-in animated transitions (timing, spring or LayoutAnimation)
+ * - 💾 Optional height cache to pre-size remounted views
+ * - 🚦 Lifecycle `status` (loading, measuring, stable, error, timeout)
  * - ⚡ Batches updates using requestAnimationFrame for smooth 60fps rendering
  * - 🚫 Ignores changes smaller than 1dp to reduce noise
  * - 🔒 Type-safe with strong validation of incoming values
@@ -123,7 +457,7 @@ const HEIGHT_DIFF_THRESHOLD = 1;
  *
  * ## Usage Example
  * ```ts
- * import { useAutoHeight } from 'react-native-sized-webview';
+ * import { parseBridgeMessage, useAutoHeight } from 'react-native-sized-webview';
  *
  * function MyComponent() {
  *   const { height, setHeightFromPayload } = useAutoHeight({
@@ -132,7 +466,10 @@ const HEIGHT_DIFF_THRESHOLD = 1;
  *   });
  *
  *   const handleMessage = (event) => {
- *     setHeightFromPayload(event.nativeEvent.data);
+ *     const message = parseBridgeMessage(event.nativeEvent.data);
+ *     if (message?.type === 'height') {
+ *       setHeightFromPayload(message.payload.height);
+ *     }
  *   };
  *
  *   return (
@@ -149,8 +486,8 @@ const HEIGHT_DIFF_THRESHOLD = 1;
  * - Maintains refs to avoid unnecessary re-render triggers
  * - Properly cancels pending frames on unmount
  *
- * @param options - Configuration object with minHeight and optional onHeightChange callback
- * @returns Object containing current height and payload processor function
+ * @param options - Configuration object with minHeight and optional size callbacks
+ * @returns Object containing the current height/width and their payload processors
  *
  * @throws Does not throw—all invalid inputs are silently ignored
  *
@@ -174,40 +511,295 @@ const HEIGHT_DIFF_THRESHOLD = 1;
 export const useAutoHeight = (
   options: UseAutoHeightOptions
 ): UseAutoHeightResult => {
-  const { minHeight, onHeightChange } = options;
+  const {
+    minHeight,
+    maxHeight,
+    onHeightChange,
+    onContentSizeChange,
+    onOverflowChange,
+    animateHeight,
+    heightCache,
+    cacheKey,
+    onStatusChange,
+    statusTimeout = DEFAULT_STATUS_TIMEOUT,
+  } = options;
+
+  const resolvedAnimation = resolveHeightAnimation(animateHeight);
+  const isAnimated = resolvedAnimation !== undefined;
+  const {
+    type: animationType,
+    duration: animationDuration,
+    easing: animationEasing,
+    stiffness: springStiffness,
+    damping: springDamping,
+    mass: springMass,
+    overshootClamping: springOvershootClamping,
+  }: HeightAnimationFields = resolvedAnimation ?? {};
+
+  // Rebuilt from its fields, so an inline config does not re-run the effects
+  // depending on it on every render.
+  const animation = useMemo((): HeightAnimation | undefined => {
+    if (!isAnimated) {
+      return undefined;
+    }
+
+    if (animationType === 'layout') {
+      return { type: 'layout', duration: animationDuration };
+    }
+
+    if (animationType === 'spring') {
+      return {
+        type: 'spring',
+        stiffness: springStiffness,
+        damping: springDamping,
+        mass: springMass,
+        overshootClamping: springOvershootClamping,
+      };
+    }
+
+    return {
+      type: 'timing',
+      duration: animationDuration,
+      easing: animationEasing,
+    };
+  }, [
+    animationDuration,
+    animationEasing,
+    animationType,
+    isAnimated,
+    springDamping,
+    springMass,
+    springOvershootClamping,
+    springStiffness,
+  ]);
+
+  const [initialContentHeight] = useState(() =>
+    Math.max(minHeight, Math.ceil(readCachedHeight(heightCache, cacheKey) ?? 1))
+  );
+
+  const [height, setHeight] = useState(() =>
+    clampHeight(initialContentHeight, minHeight, maxHeight)
+  );
+
+  const [width, setWidth] = useState<number | undefined>(undefined);
+
+  const [isOverflowing, setIsOverflowing] = useState(
+    () => height < initialContentHeight
+  );
+
+  const [isMeasured, setIsMeasured] = useState(false);
+
+  const [status, setStatus] = useState<AutoHeightStatus>('idle');
+
+  const [animatedHeightValue] = useState(() => new Animated.Value(height));
+
+  const runningAnimationRef = useRef<Animated.CompositeAnimation | null>(null);
+
+  const hasMeasuredRef = useRef(false);
 
-  const [height, setHeight] = useState(() => Math.max(minHeight, 1));
+  const contentHeightRef = useRef(initialContentHeight);
 
   const lastHeightRef = useRef(height);
 
+  const lastWidthRef = useRef(0);
+
+  const overflowingRef = useRef(isOverflowing);
+
+  const cacheKeyRef = useRef(cacheKey);
+
+  const hasPayloadRef = useRef(false);
+
   const frameRef = useRef<number | null>(null);
 
-  const pendingHeightRef = useRef<number | undefined>(undefined);
+  const pendingSizeRef = useRef<PendingSize>({});
+
+  const statusRef = useRef<AutoHeightStatus>('idle');
+
+  const stableTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const timeoutTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updateStatus = useCallback(
+    (nextStatus: AutoHeightStatus) => {
+      if (statusRef.current === nextStatus) {
+        return;
+      }
+
+      statusRef.current = nextStatus;
+      setStatus(nextStatus);
+      onStatusChange?.(nextStatus);
+    },
+    [onStatusChange]
+  );
+
+  const clearStatusTimers = useCallback(() => {
+    if (stableTimerRef.current != null) {
+      clearTimeout(stableTimerRef.current);
+      stableTimerRef.current = null;
+    }
+
+    if (timeoutTimerRef.current != null) {
+      clearTimeout(timeoutTimerRef.current);
+      timeoutTimerRef.current = null;
+    }
+  }, []);
+
+  const markMeasuring = useCallback(() => {
+    if (statusRef.current === 'error') {
+      return;
+    }
+
+    updateStatus('measuring');
+
+    if (stableTimerRef.current != null) {
+      clearTimeout(stableTimerRef.current);
+    }
+
+    stableTimerRef.current = setTimeout(() => {
+      clearStatusTimers();
+      updateStatus('stable');
+    }, STABLE_STATUS_DELAY);
+  }, [clearStatusTimers, updateStatus]);
 
-  const commitHeight = useCallback(
+  const markLoadStart = useCallback(() => {
+    clearStatusTimers();
+    updateStatus('loading');
+
+    if (statusTimeout > 0) {
+      timeoutTimerRef.current = setTimeout(() => {
+        clearStatusTimers();
+        updateStatus('timeout');
+      }, statusTimeout);
+    }
+  }, [clearStatusTimers, statusTimeout, updateStatus]);
+
+  const markLoadEnd = useCallback(() => {
+    if (statusRef.current === 'loading') {
+      updateStatus('measuring');
+    }
+  }, [updateStatus]);
+
+  const markLoadError = useCallback(() => {
+    clearStatusTimers();
+    updateStatus('error');
+  }, [clearStatusTimers, updateStatus]);
+
+  const animateTo = useCallback(
     (nextHeight: number) => {
+      runningAnimationRef.current?.stop();
+      runningAnimationRef.current = null;
+
+      const shouldAnimate = animation !== undefined && hasMeasuredRef.current;
+
+      if (animation?.type === 'layout') {
+        if (shouldAnimate) {
+          LayoutAnimation.configureNext(
+            LayoutAnimation.create(
+              animation.duration ?? DEFAULT_ANIMATION_DURATION,
+              LayoutAnimation.Types.easeInEaseOut,
+              LayoutAnimation.Properties.scaleY
+            )
+          );
+        }
+        return;
+      }
+
+      if (!shouldAnimate) {
+        animatedHeightValue.setValue(nextHeight);
+        return;
+      }
+
+      const running = createHeightAnimation(
+        animatedHeightValue,
+        nextHeight,
+        animation
+      );
+      runningAnimationRef.current = running;
+      running.start();
+    },
+    [animatedHeightValue, animation]
+  );
+
+  const applyContentHeight = useCallback(() => {
+    const contentHeight = contentHeightRef.current;
+    const nextHeight = clampHeight(contentHeight, minHeight, maxHeight);
+    const nextOverflowing = nextHeight < contentHeight;
+
+    if (nextHeight !== lastHeightRef.current) {
       lastHeightRef.current = nextHeight;
+      animateTo(nextHeight);
       setHeight(nextHeight);
       onHeightChange?.(nextHeight);
+    }
+
+    if (nextOverflowing !== overflowingRef.current) {
+      overflowingRef.current = nextOverflowing;
+      setIsOverflowing(nextOverflowing);
+      onOverflowChange?.(nextOverflowing);
+    }
+  }, [animateTo, maxHeight, minHeight, onHeightChange, onOverflowChange]);
+
+  const commitSize = useCallback(
+    (nextSize: PendingSize) => {
+      if (nextSize.measured) {
+        setIsMeasured(true);
+      }
+
+      if (typeof nextSize.height === 'number') {
+        contentHeightRef.current = nextSize.height;
+        applyContentHeight();
+      }
+
+      // Only measurements are cached: minHeight, cached and hydrated heights
+      // say nothing new about the content.
+      if (
+        typeof nextSize.reportedHeight === 'number' &&
+        heightCache &&
+        cacheKey
+      ) {
+        heightCache.set(cacheKey, nextSize.reportedHeight);
+      }
+
+      // Cached, hydrated and minHeight commits leave the first bridge
+      // measurement unanimated.
+      if (nextSize.measured) {
+        hasMeasuredRef.current = true;
+      }
+
+      if (typeof nextSize.width === 'number') {
+        lastWidthRef.current = nextSize.width;
+        setWidth(nextSize.width);
+      }
+
+      if (
+        typeof nextSize.height === 'number' ||
+        typeof nextSize.width === 'number'
+      ) {
+        onContentSizeChange?.(lastWidthRef.current, contentHeightRef.current);
+      }
     },
-    [onHeightChange]
+    [applyContentHeight, cacheKey, heightCache, onContentSizeChange]
   );
 
-  const flushPendingHeight = useCallback(() => {
+  const flushPendingSize = useCallback(() => {
     frameRef.current = null;
 
-    const pending = pendingHeightRef.current;
+    const pending = pendingSizeRef.current;
 
-    pendingHeightRef.current = undefined;
+    pendingSizeRef.current = {};
 
-    if (typeof pending === 'number') {
-      commitHeight(pending);
+    if (
+      typeof pending.height === 'number' ||
+      typeof pending.width === 'number' ||
+      pending.measured
+    ) {
+      commitSize(pending);
     }
-  }, [commitHeight]);
+  }, [commitSize]);
 
   const scheduleCommit = useCallback(
-    (nextHeight: number) => {
-      pendingHeightRef.current = nextHeight;
+    (nextSize: PendingSize) => {
+      pendingSizeRef.current = { ...pendingSizeRef.current, ...nextSize };
 
       if (frameRef.current != null) {
         return;
@@ -216,55 +808,149 @@ export const useAutoHeight = (
       const request = globalThis.requestAnimationFrame;
       if (typeof request === 'function') {
         frameRef.current = request(() => {
-          flushPendingHeight();
+          flushPendingSize();
         });
         return;
       }
 
-      flushPendingHeight();
+      flushPendingSize();
     },
-    [flushPendingHeight]
+    [flushPendingSize]
   );
 
   const setHeightFromPayload = useCallback(
     (rawValue: unknown) => {
-      const numericValue =
-        typeof rawValue === 'number' ? rawValue : Number(rawValue);
+      const numericValue = toPositiveNumber(rawValue);
 
-      if (!Number.isFinite(numericValue) || numericValue <= 0) {
+      if (numericValue === undefined) {
         return;
       }
 
-      const nextHeight = Math.max(minHeight, Math.ceil(numericValue));
+      markMeasuring();
+
+      const isFirstPayload = !hasPayloadRef.current;
+
+      hasPayloadRef.current = true;
+
+      const reportedHeight = Math.ceil(numericValue);
+      const nextHeight = Math.max(minHeight, reportedHeight);
 
       if (
-        Math.abs(nextHeight - lastHeightRef.current) <= HEIGHT_DIFF_THRESHOLD
+        Math.abs(nextHeight - contentHeightRef.current) <= SIZE_DIFF_THRESHOLD
       ) {
+        if (isFirstPayload) {
+          scheduleCommit({ measured: true });
+        }
         return;
       }
 
-      scheduleCommit(nextHeight);
+      scheduleCommit(
+        isFirstPayload
+          ? { height: nextHeight, reportedHeight, measured: true }
+          : { height: nextHeight, reportedHeight }
+      );
     },
-    [minHeight, scheduleCommit]
+    [markMeasuring, minHeight, scheduleCommit]
+  );
+
+  const setWidthFromPayload = useCallback(
+    (rawValue: unknown) => {
+      const numericValue = toPositiveNumber(rawValue);
+
+      if (numericValue === undefined) {
+        return;
+      }
+
+      const nextWidth = Math.ceil(numericValue);
+
+      if (Math.abs(nextWidth - lastWidthRef.current) <= SIZE_DIFF_THRESHOLD) {
+        return;
+      }
+
+      scheduleCommit({ width: nextWidth });
+    },
+    [scheduleCommit]
   );
 
   useEffect(() => {
-    if (minHeight > lastHeightRef.current) {
-      scheduleCommit(Math.ceil(minHeight));
+    if (minHeight > contentHeightRef.current) {
+      scheduleCommit({ height: Math.ceil(minHeight) });
     }
   }, [minHeight, scheduleCommit]);
 
+  useEffect(() => {
+    applyContentHeight();
+  }, [applyContentHeight]);
+
+  useEffect(() => {
+    if (cacheKeyRef.current === cacheKey) {
+      return;
+    }
+
+    cacheKeyRef.current = cacheKey;
+
+    const cachedHeight = readCachedHeight(heightCache, cacheKey);
+    if (cachedHeight !== undefined) {
+      scheduleCommit({ height: Math.max(minHeight, Math.ceil(cachedHeight)) });
+    }
+  }, [cacheKey, heightCache, minHeight, scheduleCommit]);
+
+  useEffect(() => {
+    if (!heightCache?.hydrate || !cacheKey) {
+      return;
+    }
+
+    let active = true;
+
+    heightCache.hydrate().then(
+      () => {
+        if (!active || hasPayloadRef.current) {
+          return;
+        }
+
+        const cachedHeight = readCachedHeight(heightCache, cacheKey);
+        if (cachedHeight !== undefined) {
+          scheduleCommit({
+            height: Math.max(minHeight, Math.ceil(cachedHeight)),
+          });
+        }
+      },
+      () => {
+        // A failed hydration simply leaves the cache cold.
+      }
+    );
+
+    return () => {
+      active = false;
+    };
+  }, [cacheKey, heightCache, minHeight, scheduleCommit]);
+
   useEffect(() => {
     return () => {
       const cancel = globalThis.cancelAnimationFrame;
       if (typeof cancel === 'function' && frameRef.current != null) {
         cancel(frameRef.current);
       }
+
+      runningAnimationRef.current?.stop();
+      clearStatusTimers();
     };
-  }, []);
+  }, [clearStatusTimers]);
 
   return {
     height,
     setHeightFromPayload,
+    width,
+    setWidthFromPayload,
+    isOverflowing,
+    animatedHeight:
+      animation && animation.type !== 'layout'
+        ? animatedHeightValue
+        : undefined,
+    isMeasured,
+    status,
+    markLoadStart,
+    markLoadEnd,
+    markLoadError,
   };
 };
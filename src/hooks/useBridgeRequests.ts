@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+import {
+  createBridgeCommandScript,
+  type BridgeCommand,
+  type BridgeCommandArgument,
+} from '../utils/createBridgeCommandScript';
+
+/**
+ * Time (ms) the bridge has to answer a request.
+ * @internal
+ */
+const BRIDGE_REQUEST_TIMEOUT = 3000;
+
+/**
+ * Configuration options for the useBridgeRequests hook.
+ * @internal
+ */
+export interface UseBridgeRequestsOptions {
+  /**
+   * Evaluates a script inside the page.
+   */
+  injectJavaScript: (script: string) => void;
+}
+
+/**
+ * Return value from the useBridgeRequests hook.
+ * @internal
+ */
+export interface UseBridgeRequestsResult {
+  /**
+   * Runs a bridge command with a fresh request id as its first argument and
+   * resolves with the answer, converted by `parse`.
+   */
+  request: <TResult>(
+    command: BridgeCommand,
+    args: BridgeCommandArgument[],
+    parse: (payload: Record<string, unknown>) => TResult
+  ) => Promise<TResult>;
+
+  /**
+   * Settles the request a payload answers; unknown request ids are ignored.
+   */
+  settleRequest: (payload: object) => void;
+}
+
+/**
+ * Pending bridge request.
+ * @internal
+ */
+interface PendingRequest {
+  settle: (payload: Record<string, unknown>) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Round-trips commands to the bridge and matches the answers to their callers.
+ *
+ * Each request is tagged with an id the bridge echoes back in its payload.
+ * Requests reject when the bridge does not answer within 3 seconds (e.g.
+ * while the page is still loading) or when the host component unmounts.
+ *
+ * @param options - Script injector reaching the page
+ * @returns The request function and the payload handler
+ *
+ * @internal Used by SizedWebView for element queries and find-in-page
+ */
+export const useBridgeRequests = ({
+  injectJavaScript,
+}: UseBridgeRequestsOptions): UseBridgeRequestsResult => {
+  const requestsRef = useRef(new Map<string, PendingRequest>());
+
+  const nextRequestIdRef = useRef(0);
+
+  const request = useCallback(
+    <TResult>(
+      command: BridgeCommand,
+      args: BridgeCommandArgument[],
+      parse: (payload: Record<string, unknown>) => TResult
+    ) =>
+      new Promise<TResult>((resolve, reject) => {
+        nextRequestIdRef.current += 1;
+        const requestId = String(nextRequestIdRef.current);
+
+        const timer = setTimeout(() => {
+          requestsRef.current.delete(requestId);
+          reject(
+            new Error(
+              `The bridge did not answer "${command}" within ${BRIDGE_REQUEST_TIMEOUT}ms`
+            )
+          );
+        }, BRIDGE_REQUEST_TIMEOUT);
+
+        requestsRef.current.set(requestId, {
+          settle: (payload) => resolve(parse(payload)),
+          reject,
+          timer,
+        });
+        injectJavaScript(
+          createBridgeCommandScript(command, requestId, ...args)
+        );
+      }),
+    [injectJavaScript]
+  );
+
+  const settleRequest = useCallback((payload: object) => {
+    const { requestId } = payload as Record<string, unknown>;
+    const pending =
+      typeof requestId === 'string'
+        ? requestsRef.current.get(requestId)
+        : undefined;
+
+    if (!pending) {
+      return;
+    }
+
+    requestsRef.current.delete(requestId as string);
+    clearTimeout(pending.timer);
+    pending.settle(payload as Record<string, unknown>);
+  }, []);
+
+  useEffect(() => {
+    const requests = requestsRef.current;
+
+    return () => {
+      requests.forEach((pending) => {
+        clearTimeout(pending.timer);
+        pending.reject(
+          new Error('SizedWebView unmounted before the bridge answered')
+        );
+      });
+      requests.clear();
+    };
+  }, []);
+
+  return { request, settleRequest };
+};
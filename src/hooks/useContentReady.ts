@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Options for `SizedWebViewHandle.waitForStableHeight`.
+ */
+export interface WaitForStableHeightOptions {
+  /**
+   * Time (ms) after which the returned promise rejects if the content has not
+   * become ready. Waits indefinitely when omitted or `0`.
+   */
+  timeout?: number;
+}
+
+/**
+ * Configuration options for the useContentReady hook.
+ * @internal
+ */
+export interface UseContentReadyOptions {
+  /**
+   * Callback fired each time the bridge reports the content as ready.
+   *
+   * @param height - The settled content height in dp/points
+   */
+  onContentReady?: (height: number) => void;
+}
+
+/**
+ * Return value from the useContentReady hook.
+ * @internal
+ */
+export interface UseContentReadyResult {
+  /**
+   * Records a `ready` payload from the bridge; invalid heights are ignored.
+   */
+  setReadyFromPayload: (rawValue: unknown) => void;
+
+  /**
+   * Forgets the last ready height, e.g. when the content changes or reloads.
+   */
+  invalidateReady: () => void;
+
+  /**
+   * Resolves with the settled height, immediately if the content is ready.
+   */
+  waitForStableHeight: (
+    options?: WaitForStableHeightOptions
+  ) => Promise<number>;
+}
+
+/**
+ * Pending `waitForStableHeight` call.
+ * @internal
+ */
+interface ReadyWaiter {
+  resolve: (height: number) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Tracks the `ready` reports of the bridge and settles `waitForStableHeight` promises.
+ *
+ * Pending promises are rejected when the host component unmounts.
+ *
+ * @param options - Callback fired on every ready report
+ * @returns The payload handler, an invalidation hook and the promise factory
+ *
+ * @internal Used by SizedWebView for `onContentReady` and `waitForStableHeight`
+ */
+export const useContentReady = ({
+  onContentReady,
+}: UseContentReadyOptions): UseContentReadyResult => {
+  const readyHeightRef = useRef<number | undefined>(undefined);
+
+  const waitersRef = useRef<ReadyWaiter[]>([]);
+
+  const takeWaiters = useCallback(() => {
+    const waiters = waitersRef.current;
+
+    waitersRef.current = [];
+    waiters.forEach((waiter) => {
+      if (waiter.timer != null) {
+        clearTimeout(waiter.timer);
+      }
+    });
+
+    return waiters;
+  }, []);
+
+  const setReadyFromPayload = useCallback(
+    (rawValue: unknown) => {
+      if (
+        typeof rawValue !== 'number' ||
+        !Number.isFinite(rawValue) ||
+        rawValue <= 0
+      ) {
+        return;
+      }
+
+      const height = Math.ceil(rawValue);
+
+      readyHeightRef.current = height;
+      onContentReady?.(height);
+      takeWaiters().forEach((waiter) => waiter.resolve(height));
+    },
+    [onContentReady, takeWaiters]
+  );
+
+  const invalidateReady = useCallback(() => {
+    readyHeightRef.current = undefined;
+  }, []);
+
+  const waitForStableHeight = useCallback(
+    ({ timeout = 0 }: WaitForStableHeightOptions = {}) => {
+      const readyHeight = readyHeightRef.current;
+
+      if (readyHeight !== undefined) {
+        return Promise.resolve(readyHeight);
+      }
+
+      return new Promise<number>((resolve, reject) => {
+        const waiter: ReadyWaiter = { resolve, reject, timer: null };
+
+        if (timeout > 0) {
+          waiter.timer = setTimeout(() => {
+            waitersRef.current = waitersRef.current.filter(
+              (candidate) => candidate !== waiter
+            );
+            reject(
+              new Error(`Content did not become stable within ${timeout}ms`)
+            );
+          }, timeout);
+        }
+
+        waitersRef.current.push(waiter);
+      });
+    },
+    []
+  );
+
+  useEffect(() => {
+    return () => {
+      takeWaiters().forEach((waiter) =>
+        waiter.reject(
+          new Error('SizedWebView unmounted before its content became stable')
+        )
+      );
+    };
+  }, [takeWaiters]);
+
+  return { setReadyFromPayload, invalidateReady, waitForStableHeight };
+};
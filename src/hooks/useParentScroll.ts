@@ -0,0 +1,67 @@
+import { useCallback, useRef, type ComponentRef, type RefObject } from 'react';
+import type { ScrollView, View } from 'react-native';
+
+/**
+ * Configuration options for the useParentScroll hook.
+ * @internal
+ */
+export interface UseParentScrollOptions {
+  /**
+   * Ref of the `ScrollView` the container is rendered in.
+   */
+  parentScrollViewRef?: RefObject<ComponentRef<typeof ScrollView> | null>;
+}
+
+/**
+ * Return value from the useParentScroll hook.
+ * @internal
+ */
+export interface UseParentScrollResult {
+  /**
+   * Ref to attach to the sized container.
+   */
+  containerRef: RefObject<ComponentRef<typeof View> | null>;
+
+  /**
+   * Scrolls the parent so that `offsetY` (dp from the top of the container)
+   * sits at the top of its viewport. A no-op without a mounted parent.
+   */
+  scrollParentTo: (offsetY: number, animated: boolean) => void;
+}
+
+/**
+ * Translates offsets inside the sized container into scroll positions of its
+ * parent `ScrollView`.
+ *
+ * The container is measured against the scroll view's content container, so
+ * the result does not depend on the current scroll position.
+ *
+ * @param options - The parent scroll view ref
+ * @returns The container ref and the scroll helper
+ *
+ * @internal Used by SizedWebView for anchor navigation
+ */
+export const useParentScroll = ({
+  parentScrollViewRef,
+}: UseParentScrollOptions): UseParentScrollResult => {
+  const containerRef = useRef<ComponentRef<typeof View>>(null);
+
+  const scrollParentTo = useCallback(
+    (offsetY: number, animated: boolean) => {
+      const scrollView = parentScrollViewRef?.current;
+      const container = containerRef.current;
+      const content = scrollView?.getInnerViewRef();
+
+      if (!scrollView || !container || !content) {
+        return;
+      }
+
+      container.measureLayout(content, (_x, y) => {
+        scrollView.scrollTo({ y: Math.max(0, y + offsetY), animated });
+      });
+    },
+    [parentScrollViewRef]
+  );
+
+  return { containerRef, scrollParentTo };
+};
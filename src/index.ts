@@ -19,6 +19,7 @@
  *
  * ### Components
  * - **`SizedWebView`** - The main auto-sizing WebView component
+ * - **`PlaceholderShimmer`** - Pulsing skeleton to return from `renderPlaceholder`
  *
  * ### Hooks
  * - **`useAutoHeight`** - Hook for managing WebView height state (advanced usage)
@@ -26,26 +27,130 @@
  * ### Utilities
  * - **`composeInjectedScript`** - Merges multiple JavaScript snippets for injection
  * - **`AUTO_HEIGHT_BRIDGE`** - The JavaScript bridge code (usually not needed directly)
+ * - **`createAutoHeightBridge`** - Generates the bridge with custom debounce, fallback and stabilization timings
+ * - **`createBridgeCommandScript`** - Builds an injectable call to a bridge command
+ * - **`createBridgeConfigScript`** - Serialises the per-instance bridge configuration
+ * - **`createMemoryHeightCache`** - In-memory LRU `HeightCache` (`sharedHeightCache` is the default instance)
+ * - **`createPersistentHeightCache`** - `HeightCache` persisted through an AsyncStorage/MMKV-style adapter
+ * - **`createHeightCacheKey`** - Derives cache keys from a source and layout width
+ * - **`sanitizeHtml`** - Allowlist-based HTML sanitizer (`DEFAULT_SANITIZE_HTML_OPTIONS` holds the default allowlists)
+ * - **`injectContentSecurityPolicy`** - Adds a CSP `<meta>` tag to an HTML document (`DEFAULT_CONTENT_SECURITY_POLICY` is the default policy)
+ * - **`parseBridgeMessage`** - Recognises the namespaced envelopes posted by the bridge
  *
  * ### Types
  * - **`SizedWebViewProps`** - Props interface for SizedWebView component
+ * - **`PlaceholderShimmerProps`** - Props for the pulsing skeleton
+ * - **`SizedWebViewHandle`** - Imperative handle exposed through the SizedWebView `ref`
  * - **`UseAutoHeightOptions`** - Configuration for useAutoHeight hook
  * - **`UseAutoHeightResult`** - Return value from useAutoHeight hook
+ * - **`AutoHeightStatus`** - Content lifecycle status reported by `onStatusChange`
+ * - **`HeightAnimation`** - Timing, spring or LayoutAnimation config for `animateHeight`
+ * - **`BridgeMessage`** - Union of the envelopes posted by the bridge
+ * - **`MeasureEvent`** - Reason and raw readings behind each reported height (`onMeasure`)
+ * - **`AutoHeightBridgeOptions`** - Timing tunables accepted by `createAutoHeightBridge` and `bridgeOptions`
+ * - **`ContentSizing`** - Axis (or axes) the container follows
+ * - **`HeightCache`** - Pluggable synchronous store used to pre-size remounted views
+ * - **`HeightStorageAdapter`** - Key/value storage backing a persistent height cache
  *
  * @packageDocumentation
  */
 
 export { SizedWebView } from './components/SizedWebView';
-export type { SizedWebViewProps } from './components/SizedWebView';
+export type {
+  BlockedNavigationEvent,
+  FindOptions,
+  LinkBehavior,
+  LinkPressEvent,
+  MeasureEvent,
+  ScrollToElementOptions,
+  SecurityMode,
+  SizedWebViewHandle,
+  SizedWebViewProps,
+} from './components/SizedWebView';
+
+export { PlaceholderShimmer } from './components/PlaceholderShimmer';
+export type { PlaceholderShimmerProps } from './components/PlaceholderShimmer';
 
 export { useAutoHeight } from './hooks/useAutoHeight';
 export type {
+  AutoHeightStatus,
+  HeightAnimation,
+  HeightLayoutAnimation,
+  HeightSpringAnimation,
+  HeightTimingAnimation,
   UseAutoHeightOptions,
   UseAutoHeightResult,
 } from './hooks/useAutoHeight';
+export type { WaitForStableHeightOptions } from './hooks/useContentReady';
 
-export { AUTO_HEIGHT_BRIDGE } from './constants/autoHeightBridge';
+export {
+  AUTO_HEIGHT_BRIDGE,
+  DEFAULT_AUTO_HEIGHT_BRIDGE_OPTIONS,
+  createAutoHeightBridge,
+} from './constants/autoHeightBridge';
+export type { AutoHeightBridgeOptions } from './constants/autoHeightBridge';
+export {
+  BRIDGE_MESSAGE_NAMESPACE,
+  BRIDGE_PROTOCOL_VERSION,
+} from './constants/bridgeProtocol';
 export { composeInjectedScript } from './utils/composeInjectedScript';
+export { createBridgeCommandScript } from './utils/createBridgeCommandScript';
+export type {
+  BridgeCommand,
+  BridgeCommandArgument,
+} from './utils/createBridgeCommandScript';
+export { createBridgeConfigScript } from './utils/createBridgeConfigScript';
+export type {
+  BaseStylePreset,
+  BaseStylesOptions,
+  BridgeConfig,
+  ContentSizing,
+  MeasurementStrategy,
+  MeasureTarget,
+  ThemeOptions,
+  TrailingNodesOptions,
+} from './utils/createBridgeConfigScript';
+export { createHeightCacheKey } from './utils/createHeightCacheKey';
+export {
+  createMemoryHeightCache,
+  sharedHeightCache,
+} from './utils/heightCache';
+export type {
+  HeightCache,
+  MemoryHeightCache,
+  MemoryHeightCacheOptions,
+} from './utils/heightCache';
+export { createPersistentHeightCache } from './utils/persistentHeightCache';
+export type {
+  HeightStorageAdapter,
+  PersistentHeightCache,
+  PersistentHeightCacheOptions,
+} from './utils/persistentHeightCache';
+export {
+  DEFAULT_CONTENT_SECURITY_POLICY,
+  injectContentSecurityPolicy,
+} from './utils/injectContentSecurityPolicy';
+export {
+  DEFAULT_SANITIZE_HTML_OPTIONS,
+  sanitizeHtml,
+} from './utils/sanitizeHtml';
+export type { SanitizeHtmlOptions } from './utils/sanitizeHtml';
+export { parseBridgeMessage } from './utils/parseBridgeMessage';
+export type {
+  BridgeAnchorMessage,
+  BridgeBlockedNavigationMessage,
+  BridgeElementRectMessage,
+  BridgeEnvelope,
+  BridgeFindResultMessage,
+  BridgeHeightMessage,
+  BridgeLinkMessage,
+  BridgeMessage,
+  BridgeReadyMessage,
+  ElementRect,
+  FindResult,
+  MeasureDetails,
+  MeasureReason,
+} from './utils/parseBridgeMessage';
 
 // Default export for convenience
 export { SizedWebView as default } from './components/SizedWebView';
@@ -0,0 +1,69 @@
+import { BRIDGE_GLOBAL_KEY } from '../constants/bridgeProtocol';
+
+/**
+ * Commands exposed by the bridge on `window.__RN_SIZED_WEBVIEW__`.
+ *
+ * - `refresh`: rebuilds the wrapper if needed and forces a new measurement
+ * - `destroy`: disconnects every observer, timer and listener installed by the bridge
+ * - `setMaxHeight`: updates the height above which the page becomes scrollable
+ * - `getElementRect`: posts an `elementRect` message with the bounds of the
+ *   element matching a selector, tagged with the given request id
+ * - `find`: highlights the matches of a query and posts a `findResult` message
+ * - `findStep`: moves the active match forward or backward and posts a `findResult` message
+ * - `clearFind`: removes the find-in-page highlights
+ * - `setTheme`: replaces the theme tokens and color scheme, then re-measures
+ * - `setFontScale`: replaces the text scale factor, then re-measures
+ */
+export type BridgeCommand =
+  | 'refresh'
+  | 'destroy'
+  | 'setMaxHeight'
+  | 'getElementRect'
+  | 'find'
+  | 'findStep'
+  | 'clearFind'
+  | 'setTheme'
+  | 'setFontScale';
+
+/**
+ * JSON-serialisable argument forwarded to a bridge command.
+ */
+export type BridgeCommandArgument =
+  | string
+  | number
+  | boolean
+  | null
+  | BridgeCommandArgument[]
+  | { [key: string]: BridgeCommandArgument };
+
+/**
+ * Builds a script that invokes a bridge command through `injectJavaScript`.
+ *
+ * The generated snippet is a no-op when the bridge is not installed (yet), so it
+ * is always safe to inject.
+ *
+ * @param command - The bridge command to run
+ * @param args - Arguments forwarded to the command, serialised as JSON
+ * @returns A JavaScript snippet ending with `true;`, as `injectJavaScript` expects
+ *
+ * @example
+ * ```ts
+ * webViewRef.current?.injectJavaScript(createBridgeCommandScript('refresh'));
+ * webViewRef.current?.injectJavaScript(
+ *   createBridgeCommandScript('setMaxHeight', 400)
+ * );
+ * ```
+ *
+ * @internal Used by SizedWebView to drive the bridge at runtime
+ */
+export const createBridgeCommandScript = (
+  command: BridgeCommand,
+  ...args: BridgeCommandArgument[]
+): string =>
+  `(function () {
+  var bridge = window[${JSON.stringify(BRIDGE_GLOBAL_KEY)}];
+  if (bridge && typeof bridge[${JSON.stringify(command)}] === 'function') {
+    bridge[${JSON.stringify(command)}].apply(bridge, ${JSON.stringify(args)});
+  }
+})();
+true;`;
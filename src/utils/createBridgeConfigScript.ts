@@ -0,0 +1,242 @@
+import { BRIDGE_CONFIG_KEY } from '../constants/bridgeProtocol';
+
+/**
+ * Axis (or axes) along which the container follows the content size.
+ *
+ * - `'height'`: the container height follows the content (default)
+ * - `'width'`: the container width follows the intrinsic content width
+ * - `'both'`: both dimensions follow the content
+ */
+export type ContentSizing = 'height' | 'width' | 'both';
+
+/**
+ * How the bridge finds the content height.
+ *
+ * - `'wrapper'`: moves every child of `<body>` into a dedicated wrapper and
+ *   measures it; the most accurate option, and the default
+ * - `'document'`: leaves the DOM untouched and measures the bounds of `<body>`;
+ *   use it for pages whose frameworks hold references to body children,
+ *   rely on `body > …` selectors or render straight into `document.body`
+ */
+export type MeasurementStrategy = 'wrapper' | 'document';
+
+/**
+ * Element (or custom measurement) the bridge sizes the container to, instead
+ * of its built-in wrapper/body/html targets.
+ *
+ * - a CSS selector: the document bottom edge of the first matching element;
+ *   a replaced element is picked up and re-observed on the next measurement
+ * - `{ measure }`: the source of a function `(document, window) => number | Element`
+ *   evaluated inside the page. It must be a string: functions are not
+ *   serialisable once compiled to Hermes bytecode.
+ *
+ * When the selector matches nothing, or the function returns neither a
+ * positive number nor an element, the built-in targets are used.
+ */
+export type MeasureTarget = string | { measure: string };
+
+/**
+ * Base styles the bridge applies to `<html>` and `<body>`.
+ *
+ * - `'reset'`: hidden overflow, no margin or padding, full width, auto height
+ *   and transparent backgrounds (default)
+ * - `'minimal'`: only what measurement relies on (auto heights, plus a
+ *   `max-content` body when tracking width with the `'document'` strategy)
+ * - `'none'`: no base styles at all
+ */
+export type BaseStylePreset = 'reset' | 'minimal' | 'none';
+
+/**
+ * Base style preset with custom declarations layered on top of it.
+ */
+export interface BaseStylesOptions {
+  /**
+   * Preset the overrides are layered on.
+   *
+   * @default 'reset'
+   */
+  preset?: BaseStylePreset;
+
+  /**
+   * CSS declarations for `<html>`, keyed by (kebab-case) property name.
+   */
+  html?: Record<string, string>;
+
+  /**
+   * CSS declarations for `<body>`, keyed by (kebab-case) property name.
+   */
+  body?: Record<string, string>;
+}
+
+/**
+ * App theme exposed to the page.
+ */
+export interface ThemeOptions {
+  /**
+   * Adds an `rn-color-scheme-light`/`rn-color-scheme-dark` class to `<html>`
+   * and sets its `color-scheme`, so default text and form controls follow it.
+   */
+  colorScheme?: 'light' | 'dark';
+
+  /**
+   * Values written as CSS custom properties on `<html>`. Camel-case names are
+   * kebab-cased (`textColor` becomes `--text-color`); names starting with
+   * `--` are used as is.
+   */
+  tokens?: Record<string, string | number>;
+}
+
+/**
+ * How the bridge trims blank nodes left at the end of the page (typically by
+ * CMS exports), which would otherwise add phantom padding.
+ */
+export interface TrailingNodesOptions {
+  /**
+   * CSS selectors of the trailing elements that may be trimmed. An element is
+   * only trimmed when it matches and holds no text or media.
+   *
+   * @default ['br', 'p']
+   */
+  selectors?: string[];
+
+  /**
+   * - `'remove'`: removes the nodes from the DOM (default)
+   * - `'collapse'`: keeps the nodes and hides them with an injected
+   *   `display: none` rule, restoring them once they are no longer trailing
+   *
+   * @default 'remove'
+   */
+  mode?: 'remove' | 'collapse';
+}
+
+/**
+ * Per-instance configuration handed to the auto-height bridge.
+ */
+export interface BridgeConfig {
+  /**
+   * Identifier stamped on every message the bridge posts back, so a
+   * `SizedWebView` only reacts to its own bridge.
+   */
+  instanceId: string;
+
+  /**
+   * Axis (or axes) the container follows. When width is tracked, the bridge lays
+   * the content out at its intrinsic (`max-content`) width instead of the viewport width.
+   *
+   * @default 'height'
+   */
+  sizing?: ContentSizing;
+
+  /**
+   * Height (in CSS px) above which the bridge lets the page scroll internally
+   * instead of keeping `overflow: hidden` on `<html>`.
+   */
+  maxHeight?: number;
+
+  /**
+   * Time (ms) the height must stay unchanged, with no pending media or font
+   * loads, before the bridge reports the content as ready.
+   *
+   * @default 300
+   */
+  readyQuietWindow?: number;
+
+  /**
+   * How the bridge finds the content height. `'document'` never reparents or
+   * removes the page's nodes; trailing nodes are only trimmed in `'collapse'` mode.
+   *
+   * @default 'wrapper'
+   */
+  measurementStrategy?: MeasurementStrategy;
+
+  /**
+   * Trailing blank node trimming; `false` disables it.
+   *
+   * @default { selectors: ['br', 'p'], mode: 'remove' }
+   */
+  trailingNodes?: TrailingNodesOptions | false;
+
+  /**
+   * Element (or custom measurement) used in place of the built-in targets.
+   */
+  measureTarget?: MeasureTarget;
+
+  /**
+   * Measures the lowest visible descendant box or text run instead of the
+   * layout height, so absolutely positioned and transformed content is
+   * accounted for.
+   * Descendants are clipped at ancestors whose overflow is not `visible`.
+   *
+   * @default false
+   */
+  deepMeasurement?: boolean;
+
+  /**
+   * Base styles for `<html>` and `<body>`. They are injected as a zero-specificity
+   * stylesheet, so inline styles and the page's own stylesheets always win.
+   *
+   * @default 'reset'
+   */
+  baseStyles?: BaseStylePreset | BaseStylesOptions;
+
+  /**
+   * Intercepts same-document hash navigation and `scrollIntoView()` calls and
+   * reports the target offset with an `anchor` message instead.
+   *
+   * @default false
+   */
+  anchorNavigation?: boolean;
+
+  /**
+   * Intercepts link clicks (including `target="_blank"`) and `window.open()`
+   * calls and reports them with a `link` message instead of navigating.
+   * Same-document `#anchor` links are left alone. Script-initiated clicks and
+   * `window.open()` calls made without a recent user gesture are dropped.
+   *
+   * @default false
+   */
+  interceptLinks?: boolean;
+
+  /**
+   * Makes `window.open()` a no-op that reports the URL with a
+   * `blockedNavigation` message. Takes precedence over `interceptLinks`.
+   *
+   * @default false
+   */
+  blockWindowOpen?: boolean;
+
+  /**
+   * Theme applied once the DOM is ready; `setTheme` replaces it at runtime.
+   */
+  theme?: ThemeOptions;
+
+  /**
+   * Factor applied to the page's text through `text-size-adjust`, typically
+   * the OS font scale; `setFontScale` replaces it at runtime.
+   *
+   * @default 1
+   */
+  fontScale?: number;
+}
+
+/**
+ * Serialises a bridge configuration into a script that must run before the bridge.
+ *
+ * The bridge reads `window[BRIDGE_CONFIG_KEY]` once during startup, so the
+ * returned snippet has to be composed ahead of `AUTO_HEIGHT_BRIDGE`.
+ *
+ * @param config - Configuration for the bridge instance
+ * @returns A JavaScript statement assigning the configuration on `window`
+ *
+ * @example
+ * ```ts
+ * composeInjectedScript(
+ *   createBridgeConfigScript({ instanceId: 'article' }),
+ *   AUTO_HEIGHT_BRIDGE
+ * );
+ * ```
+ *
+ * @internal Used by SizedWebView when composing its injected scripts
+ */
+export const createBridgeConfigScript = (config: BridgeConfig): string =>
+  `window[${JSON.stringify(BRIDGE_CONFIG_KEY)}] = ${JSON.stringify(config)};`;
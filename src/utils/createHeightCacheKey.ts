@@ -0,0 +1,58 @@
+/**
+ * Modulus of the polynomial string hash (largest 32-bit prime).
+ * @internal
+ */
+const HASH_MODULUS = 4294967291;
+
+/**
+ * Polynomial rolling hash rendered in base 36. Not cryptographic; combined with
+ * the content length it is plenty to tell cache entries apart.
+ * @internal
+ */
+const hashString = (value: string): string => {
+  let hash = 5381;
+
+  for (let index = 0; index < value.length; index += 1) {
+    hash = (hash * 33 + value.charCodeAt(index)) % HASH_MODULUS;
+  }
+
+  return hash.toString(36);
+};
+
+/**
+ * Derives a `HeightCache` key from a WebView source and the layout width.
+ *
+ * ## Key Format
+ * - `html:<hash>:<length>@<width>` for inline HTML (the `baseUrl` is part of the hash)
+ * - `uri:<hash>:<length>@<width>` for remote or local URIs
+ *
+ * The width is part of the key because the same content reflows to a different
+ * height at a different width.
+ *
+ * @param source - The WebView `source` prop, or just its `html`, `baseUrl` and `uri` fields
+ * @param width - Layout width (dp) the content is rendered at
+ * @returns The cache key, or `undefined` when the source carries neither `html` nor `uri`
+ *
+ * @example
+ * ```ts
+ * createHeightCacheKey({ uri: 'https://example.com' }, 390);
+ * // "uri:1x2y3z:19@390"
+ * ```
+ */
+export const createHeightCacheKey = (
+  source: { html?: string; baseUrl?: string; uri?: string } | undefined,
+  width: number
+): string | undefined => {
+  const roundedWidth = Math.round(width);
+
+  if (typeof source?.html === 'string') {
+    const content = `${source.baseUrl ?? ''}\n${source.html}`;
+    return `html:${hashString(content)}:${source.html.length}@${roundedWidth}`;
+  }
+
+  if (typeof source?.uri === 'string') {
+    return `uri:${hashString(source.uri)}:${source.uri.length}@${roundedWidth}`;
+  }
+
+  return undefined;
+};
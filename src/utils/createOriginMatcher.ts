@@ -0,0 +1,72 @@
+/**
+ * Leading `scheme:` or `scheme://[userinfo@]host[:port]` of a URL. The
+ * authority ends at the first `/`, `?`, `#` or `\`, as it does in browsers.
+ * @internal
+ */
+const ORIGIN_PATTERN =
+  /^([A-Za-z][A-Za-z0-9+\-.]+:)(?:\/\/(?:[^/?#\\@]*@)?([^/?#\\]*)|([^/?#\\]*))/;
+
+/**
+ * Pattern naming a scheme only, such as `'https:'` or `'https://'`.
+ * @internal
+ */
+const SCHEME_ONLY_PATTERN = /^[A-Za-z][A-Za-z0-9+\-.]+:(\/\/)?$/;
+
+/**
+ * Extracts the origin of a URL, or an empty string when it has no scheme.
+ *
+ * @param url - Absolute URL
+ * @returns `scheme://host[:port]` for hierarchical URLs, `scheme:…` up to the first `/`, `?`, `#` or `\` otherwise
+ *
+ * @internal Used by SizedWebView to enforce its origin policy
+ */
+export const extractOrigin = (url: string): string => {
+  const match = ORIGIN_PATTERN.exec(url);
+
+  if (!match) {
+    return '';
+  }
+
+  const [, scheme, authority, opaque] = match;
+
+  return authority === undefined
+    ? `${scheme}${opaque}`
+    : `${scheme}//${authority}`;
+};
+
+/**
+ * Compiles `originWhitelist` patterns into a predicate over URLs.
+ *
+ * As in react-native-webview, `*` matches any run of characters. Unlike
+ * react-native-webview, a pattern must match the whole origin:
+ * `'https://example.com'` does not admit `https://example.com.evil.net`.
+ * Patterns naming a scheme only (`'https://'`, `'mailto:'`) still admit every
+ * origin of that scheme, so prefix-style whitelists keep working.
+ *
+ * @param patterns - Origin patterns such as `'https://*'` or `'about:*'`
+ * @returns A function telling whether a URL's origin matches any pattern
+ *
+ * @example
+ * ```ts
+ * const isAllowed = createOriginMatcher(['https://*.example.com']);
+ * isAllowed('https://cdn.example.com/a.png'); // true
+ * isAllowed('http://cdn.example.com/a.png'); // false
+ * ```
+ *
+ * @internal Used by SizedWebView to enforce its origin policy
+ */
+export const createOriginMatcher = (
+  patterns: readonly string[]
+): ((url: string) => boolean) => {
+  const expressions = patterns.map(
+    (pattern) =>
+      new RegExp(
+        `^${pattern.replace(/[|\\{}()[\]^$+?.]/g, '\\$&').replace(/\*/g, '.*')}${SCHEME_ONLY_PATTERN.test(pattern) ? '.*' : ''}$`
+      )
+  );
+
+  return (url) => {
+    const origin = extractOrigin(url);
+    return expressions.some((expression) => expression.test(origin));
+  };
+};
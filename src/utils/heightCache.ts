@@ -0,0 +1,126 @@
+/**
+ * Synchronous store of content heights, keyed by source and layout width.
+ *
+ * `useAutoHeight` reads from it once to pick its initial height and writes every
+ * committed content height back, so remounted WebViews start at their last
+ * known size instead of `minHeight`.
+ *
+ * Reads must be synchronous because they happen during the first render.
+ *
+ * @example
+ * ```ts
+ * const cache: HeightCache = {
+ *   get: (key) => myMap.get(key),
+ *   set: (key, height) => myMap.set(key, height),
+ * };
+ * ```
+ */
+export interface HeightCache {
+  /**
+   * Returns the cached content height for `key`, if any.
+   */
+  get: (key: string) => number | undefined;
+
+  /**
+   * Stores the latest committed content height for `key`.
+   */
+  set: (key: string, height: number) => void;
+
+  /**
+   * Optionally loads entries from a slower backing store.
+   *
+   * `useAutoHeight` calls it on mount and applies the hydrated height when the
+   * bridge has not reported a measurement yet. See `createPersistentHeightCache`.
+   */
+  hydrate?: () => Promise<void>;
+}
+
+/**
+ * Options for `createMemoryHeightCache`.
+ */
+export interface MemoryHeightCacheOptions {
+  /**
+   * Maximum number of entries kept before the least recently used one is evicted.
+   *
+   * @default 200
+   */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory `HeightCache` that additionally supports removal.
+ */
+export interface MemoryHeightCache extends HeightCache {
+  /** Removes the entry for `key`. */
+  delete: (key: string) => void;
+  /** Removes every entry. */
+  clear: () => void;
+  /** Number of entries currently stored. */
+  readonly size: number;
+}
+
+/**
+ * Default capacity of memory caches.
+ * @internal
+ */
+const DEFAULT_MAX_ENTRIES = 200;
+
+/**
+ * Creates an in-memory least-recently-used `HeightCache`.
+ *
+ * Relies on `Map` insertion order: reads and writes move the entry to the end,
+ * and the first entry is evicted once `maxEntries` is exceeded.
+ *
+ * @param options - Capacity configuration
+ * @returns A `MemoryHeightCache` instance
+ *
+ * @example
+ * ```tsx
+ * const articleHeights = createMemoryHeightCache({ maxEntries: 50 });
+ *
+ * <SizedWebView heightCache={articleHeights} source={{ html }} />
+ * ```
+ */
+export const createMemoryHeightCache = (
+  options: MemoryHeightCacheOptions = {}
+): MemoryHeightCache => {
+  const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const entries = new Map<string, number>();
+
+  return {
+    get: (key) => {
+      const height = entries.get(key);
+
+      if (height === undefined) {
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, height);
+      return height;
+    },
+    set: (key, height) => {
+      entries.delete(key);
+      entries.set(key, height);
+
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    clear: () => {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+};
+
+/**
+ * Cache shared by every `SizedWebView` that does not receive its own `heightCache`.
+ */
+export const sharedHeightCache: MemoryHeightCache = createMemoryHeightCache();
@@ -0,0 +1,65 @@
+/**
+ * Content Security Policy injected by `contentSecurityPolicy: true`.
+ *
+ * Blocks every script, frame, form submission and `<base>` override of the
+ * page, and only loads images, media and fonts over HTTPS (or inline `data:`).
+ * Inline styles stay allowed, both for authored markup and for the bridge's
+ * injected stylesheets.
+ */
+export const DEFAULT_CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "style-src 'unsafe-inline' https:",
+  'img-src data: https:',
+  'media-src data: https:',
+  'font-src data: https:',
+  "frame-src 'none'",
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+/**
+ * Opening `<head>` tag.
+ * @internal
+ */
+const HEAD_PATTERN = /<head(\s[^>]*)?>/i;
+
+/**
+ * Leading doctype declaration.
+ * @internal
+ */
+const DOCTYPE_PATTERN = /^\s*<!doctype[^>]*>/i;
+
+/**
+ * Adds a `<meta http-equiv="Content-Security-Policy">` tag to an HTML document.
+ *
+ * The tag goes right after the opening `<head>` (so it applies before any
+ * other resource is declared), after the doctype when the document has no
+ * head, and at the very start otherwise. Placing it ahead of the doctype would
+ * switch the page to quirks mode.
+ *
+ * @param html - Document markup
+ * @param policy - Policy to enforce
+ * @returns The markup with the policy tag inserted
+ *
+ * @example
+ * ```ts
+ * injectContentSecurityPolicy('<p>Hi</p>', "default-src 'none'");
+ * // `<meta http-equiv="Content-Security-Policy" content="default-src 'none'"><p>Hi</p>`
+ * ```
+ */
+export const injectContentSecurityPolicy = (
+  html: string,
+  policy: string = DEFAULT_CONTENT_SECURITY_POLICY
+): string => {
+  const content = policy.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${content}">`;
+  const anchor = HEAD_PATTERN.exec(html) ?? DOCTYPE_PATTERN.exec(html);
+
+  if (!anchor) {
+    return meta + html;
+  }
+
+  const insertAt = anchor.index + anchor[0].length;
+
+  return html.slice(0, insertAt) + meta + html.slice(insertAt);
+};
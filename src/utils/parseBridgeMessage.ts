@@ -0,0 +1,315 @@
+import { BRIDGE_MESSAGE_NAMESPACE } from '../constants/bridgeProtocol';
+
+/**
+ * Envelope wrapping every message posted by the auto-height bridge.
+ *
+ * @typeParam TType - Discriminator describing the message kind
+ * @typeParam TPayload - Data carried by the message
+ */
+export interface BridgeEnvelope<TType extends string, TPayload> {
+  /** Always `BRIDGE_MESSAGE_NAMESPACE`; identifies bridge traffic. */
+  namespace: typeof BRIDGE_MESSAGE_NAMESPACE;
+  /** Protocol version the bridge was built against. */
+  version: number;
+  /** Message kind. */
+  type: TType;
+  /** Identifier of the `SizedWebView` instance the bridge belongs to. */
+  instanceId: string;
+  /** Message-specific data. */
+  payload: TPayload;
+}
+
+/**
+ * What made the bridge measure the page.
+ *
+ * - `'initial'`: first measurement after the bridge bootstrapped
+ * - `'mutation'`: DOM mutation
+ * - `'resize'`: `ResizeObserver` on the wrapper, `<body>` or `<html>`
+ * - `'viewport'`: visual viewport, window resize or orientation change
+ * - `'media'`: an image, iframe or video loaded or resized
+ * - `'font'`: web fonts finished loading
+ * - `'load'`: document lifecycle event (`DOMContentLoaded`, `load`, `pageshow`…)
+ * - `'message'`: re-measure request posted by the page
+ * - `'refresh'`: `refresh()` called through the ref
+ * - `'fallback'`: periodic fallback timer
+ * - `'stabilization'`: scheduled post-bootstrap re-measure
+ * - `'prune'`: trailing blank nodes were removed
+ * - `'retry'`: an implausible height was discarded and re-measured
+ * - `'theme'`: the theme changed through `setTheme`
+ * - `'fontScale'`: the text scale changed through `setFontScale`
+ * - `'unknown'`: reported by a bridge that does not tag reasons
+ */
+export type MeasureReason =
+  | 'initial'
+  | 'mutation'
+  | 'resize'
+  | 'viewport'
+  | 'media'
+  | 'font'
+  | 'load'
+  | 'message'
+  | 'refresh'
+  | 'fallback'
+  | 'stabilization'
+  | 'prune'
+  | 'retry'
+  | 'theme'
+  | 'fontScale'
+  | 'unknown';
+
+/**
+ * Raw height readings (CSS px) of each element the bridge measured; the
+ * reported height is the largest of them.
+ */
+export interface MeasureDetails {
+  /** The wrapper the bridge re-parents the content into. */
+  wrapper?: number;
+  /** `document.body`. */
+  body?: number;
+  /** `document.documentElement`. */
+  html?: number;
+  /** `document.scrollingElement`, when distinct from `<body>` and `<html>`. */
+  scrollingElement?: number;
+  /** The `measureTarget` element or measure function, replacing every other reading. */
+  target?: number;
+  /** The lowest visible descendant, when `deepMeasurement` is enabled. */
+  descendants?: number;
+}
+
+/**
+ * Reports a new content size measured inside the page.
+ *
+ * `width` is the intrinsic content width when the bridge tracks width, or the
+ * laid-out content width otherwise. `reason` and `details` describe what
+ * triggered the measurement and the individual readings behind it.
+ */
+export type BridgeHeightMessage = BridgeEnvelope<
+  'height',
+  {
+    height: number;
+    width?: number;
+    reason?: MeasureReason;
+    details?: MeasureDetails;
+  }
+>;
+
+/**
+ * Reports that media and fonts have settled and the height stayed unchanged
+ * for the configured quiet window.
+ */
+export type BridgeReadyMessage = BridgeEnvelope<'ready', { height: number }>;
+
+/**
+ * Reports a same-document navigation (hash link, `location.hash` change or
+ * `scrollIntoView()`) the page could not scroll to by itself.
+ */
+export type BridgeAnchorMessage = BridgeEnvelope<
+  'anchor',
+  {
+    /** Top edge of the target element, in CSS px from the top of the content. */
+    offsetY: number;
+    /** The navigated fragment (`#section`), `null` for `scrollIntoView()`. */
+    hash?: string | null;
+  }
+>;
+
+/**
+ * Reports a link click or `window.open()` call intercepted by the bridge.
+ */
+export type BridgeLinkMessage = BridgeEnvelope<
+  'link',
+  {
+    /** Absolute URL of the link. */
+    url: string;
+    /** The link `target`, `'_blank'` for `window.open()` without one. */
+    target?: string | null;
+    /** Trimmed text content of the link, empty for `window.open()`. */
+    text?: string;
+  }
+>;
+
+/**
+ * Reports a `window.open()` call the bridge blocked (`blockWindowOpen`).
+ */
+export type BridgeBlockedNavigationMessage = BridgeEnvelope<
+  'blockedNavigation',
+  {
+    /** Absolute URL the page tried to open. */
+    url: string;
+    /** What was blocked; always `'window.open'` for now. */
+    reason: 'window.open';
+  }
+>;
+
+/**
+ * Bounds of an element inside the page, in CSS px (dp/points) relative to the
+ * top-left corner of the SizedWebView container.
+ */
+export interface ElementRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Answers a `getElementRect` command; `rect` is `null` when no element matched.
+ */
+export type BridgeElementRectMessage = BridgeEnvelope<
+  'elementRect',
+  { requestId: string; rect: ElementRect | null }
+>;
+
+/**
+ * Matches of a find-in-page query.
+ */
+export interface FindResult {
+  /** The searched text; an empty query clears the matches. */
+  query: string;
+  /** Number of matches. */
+  count: number;
+  /** Top edge of each match, in CSS px from the top of the content. */
+  offsets: number[];
+  /** Index of the highlighted active match, `-1` without matches. */
+  activeIndex: number;
+}
+
+/**
+ * Answers a `find` or `findStep` command.
+ */
+export type BridgeFindResultMessage = BridgeEnvelope<
+  'findResult',
+  FindResult & { requestId: string }
+>;
+
+/**
+ * Union of every message the bridge can emit.
+ */
+export type BridgeMessage =
+  | BridgeHeightMessage
+  | BridgeReadyMessage
+  | BridgeAnchorMessage
+  | BridgeElementRectMessage
+  | BridgeFindResultMessage
+  | BridgeLinkMessage
+  | BridgeBlockedNavigationMessage;
+
+/**
+ * Parses a raw `onMessage` payload into a bridge envelope.
+ *
+ * ## Overview
+ * Only strings carrying a JSON object stamped with `BRIDGE_MESSAGE_NAMESPACE`
+ * are recognised. Anything else—plain strings, numbers, JSON posted by the
+ * page itself—yields `undefined` so the caller can forward it untouched.
+ *
+ * The envelope is validated structurally (namespace, version, type, instance id
+ * and an object payload); the payload contents are validated by the consumer.
+ *
+ * @param data - Raw `event.nativeEvent.data` received from the WebView
+ * @returns The parsed envelope, or `undefined` for non-bridge messages
+ *
+ * @example
+ * ```ts
+ * const message = parseBridgeMessage(event.nativeEvent.data);
+ * if (!message) {
+ *   onMessage?.(event);
+ * }
+ * ```
+ *
+ * @internal Used by SizedWebView to split bridge traffic from page messages
+ */
+export const parseBridgeMessage = (
+  data: unknown
+): BridgeMessage | undefined => {
+  if (
+    typeof data !== 'string' ||
+    data.charAt(0) !== '{' ||
+    data.indexOf(BRIDGE_MESSAGE_NAMESPACE) === -1
+  ) {
+    return undefined;
+  }
+
+  let candidate: Partial<BridgeMessage>;
+
+  try {
+    candidate = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+
+  if (
+    candidate.namespace !== BRIDGE_MESSAGE_NAMESPACE ||
+    typeof candidate.version !== 'number' ||
+    typeof candidate.type !== 'string' ||
+    typeof candidate.instanceId !== 'string' ||
+    !candidate.payload ||
+    typeof candidate.payload !== 'object'
+  ) {
+    return undefined;
+  }
+
+  return candidate as BridgeMessage;
+};
+
+/**
+ * Checks that a value is a finite number.
+ * @internal
+ */
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Reads the rect of an `elementRect` payload.
+ *
+ * @param payload - Payload of an `elementRect` message
+ * @returns The rect, or `null` when it is missing or malformed
+ *
+ * @internal Used by SizedWebView to settle `getElementRect` requests
+ */
+export const readElementRectPayload = (
+  payload: Record<string, unknown>
+): ElementRect | null => {
+  const { rect } = payload;
+
+  if (!rect || typeof rect !== 'object') {
+    return null;
+  }
+
+  const { x, y, width, height } = rect as Record<string, unknown>;
+
+  return isFiniteNumber(x) &&
+    isFiniteNumber(y) &&
+    isFiniteNumber(width) &&
+    isFiniteNumber(height)
+    ? { x, y, width, height }
+    : null;
+};
+
+/**
+ * Reads a `findResult` payload, dropping malformed offsets.
+ *
+ * @param payload - Payload of a `findResult` message
+ * @returns The find result; an active index out of range becomes `-1`
+ *
+ * @internal Used by SizedWebView to settle find-in-page requests
+ */
+export const readFindResultPayload = (
+  payload: Record<string, unknown>
+): FindResult => {
+  const offsets = Array.isArray(payload.offsets)
+    ? payload.offsets.filter(isFiniteNumber)
+    : [];
+  const { activeIndex } = payload;
+
+  return {
+    query: typeof payload.query === 'string' ? payload.query : '',
+    count: offsets.length,
+    offsets,
+    activeIndex:
+      isFiniteNumber(activeIndex) &&
+      activeIndex >= 0 &&
+      activeIndex < offsets.length
+        ? activeIndex
+        : -1,
+  };
+};
@@ -0,0 +1,317 @@
+import type { MemoryHeightCache } from './heightCache';
+
+/**
+ * Minimal key/value storage used to persist heights across app launches.
+ *
+ * Methods may be synchronous (MMKV) or return promises (AsyncStorage).
+ *
+ * @example
+ * ```ts
+ * // AsyncStorage
+ * const storage: HeightStorageAdapter = {
+ *   get: (key) => AsyncStorage.getItem(key),
+ *   set: (key, value) => AsyncStorage.setItem(key, value),
+ *   remove: (key) => AsyncStorage.removeItem(key),
+ * };
+ *
+ * // MMKV
+ * const storage: HeightStorageAdapter = {
+ *   get: (key) => mmkv.getString(key),
+ *   set: (key, value) => mmkv.set(key, value),
+ *   remove: (key) => mmkv.delete(key),
+ * };
+ * ```
+ */
+export interface HeightStorageAdapter {
+  get: (
+    key: string
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  set: (key: string, value: string) => void | Promise<void>;
+  remove: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Options for `createPersistentHeightCache`.
+ */
+export interface PersistentHeightCacheOptions {
+  /** Storage the cache hydrates from and writes through to. */
+  storage: HeightStorageAdapter;
+
+  /**
+   * Version of the cached data. Persisted entries written under a different
+   * version are discarded, so bump it whenever your HTML templates change.
+   *
+   * @default 1
+   */
+  version?: string | number;
+
+  /**
+   * Time-to-live of an entry in milliseconds, measured from its last write.
+   *
+   * @default undefined (entries never expire)
+   */
+  ttl?: number;
+
+  /**
+   * Maximum number of entries kept before the least recently used one is evicted.
+   *
+   * @default 200
+   */
+  maxEntries?: number;
+
+  /**
+   * Storage key under which the whole cache is persisted.
+   *
+   * @default '@react-native-sized-webview/heights'
+   */
+  storageKey?: string;
+}
+
+/**
+ * `HeightCache` backed by a `HeightStorageAdapter`.
+ */
+export interface PersistentHeightCache extends MemoryHeightCache {
+  /**
+   * Loads persisted entries into memory. Safe to call repeatedly; every call
+   * returns the same promise, which never rejects.
+   */
+  hydrate: () => Promise<void>;
+
+  /**
+   * Resolves once pending writes have reached the storage.
+   */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Serialised shape of the persisted cache.
+ * @internal
+ */
+interface PersistedHeights {
+  version: string | number;
+  entries: Array<[key: string, height: number, updatedAt: number]>;
+}
+
+/**
+ * In-memory entry of the persistent cache.
+ * @internal
+ */
+interface CacheEntry {
+  height: number;
+  updatedAt: number;
+}
+
+/**
+ * Default storage key of persistent caches.
+ * @internal
+ */
+const DEFAULT_STORAGE_KEY = '@react-native-sized-webview/heights';
+
+/**
+ * Default capacity of persistent caches.
+ * @internal
+ */
+const DEFAULT_MAX_ENTRIES = 200;
+
+/**
+ * Parses the persisted payload, returning `undefined` when it is unusable.
+ * @internal
+ */
+const parsePersistedHeights = (
+  raw: string | null | undefined
+): PersistedHeights | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const parsed: Partial<PersistedHeights> = JSON.parse(raw);
+    return parsed && Array.isArray(parsed.entries)
+      ? (parsed as PersistedHeights)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates a `HeightCache` that survives app restarts.
+ *
+ * ## How it Works
+ * - Reads are served synchronously from memory, as `useAutoHeight` requires
+ * - `hydrate()` loads persisted entries; `useAutoHeight` calls it automatically
+ *   and applies a hydrated height if the bridge has not measured yet
+ * - Writes update memory immediately and are persisted as a single JSON entry,
+ *   coalesced per microtask
+ * - Entries older than `ttl`, beyond `maxEntries` (LRU) or written under another
+ *   `version` are evicted
+ *
+ * Storage failures are swallowed: the cache then behaves like a memory cache.
+ *
+ * @param options - Storage adapter and eviction configuration
+ * @returns A `PersistentHeightCache` instance
+ *
+ * @example
+ * ```tsx
+ * const articleHeights = createPersistentHeightCache({
+ *   storage,
+ *   version: 'article-template-v3',
+ *   ttl: 7 * 24 * 60 * 60 * 1000,
+ * });
+ *
+ * <SizedWebView heightCache={articleHeights} source={{ html }} />
+ * ```
+ */
+export const createPersistentHeightCache = (
+  options: PersistentHeightCacheOptions
+): PersistentHeightCache => {
+  const {
+    storage,
+    version = 1,
+    ttl,
+    storageKey = DEFAULT_STORAGE_KEY,
+  } = options;
+  const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const entries = new Map<string, CacheEntry>();
+
+  let hydration: Promise<void> | undefined;
+  let pendingWrite: Promise<void> | undefined;
+  let hasUnsavedChanges = false;
+
+  const isExpired = (entry: CacheEntry, now: number) =>
+    typeof ttl === 'number' && now - entry.updatedAt > ttl;
+
+  const evictOverflow = () => {
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+    }
+  };
+
+  const persist = async () => {
+    try {
+      if (entries.size === 0) {
+        await storage.remove(storageKey);
+        return;
+      }
+
+      const payload: PersistedHeights = {
+        version,
+        entries: Array.from(entries, ([key, entry]) => [
+          key,
+          entry.height,
+          entry.updatedAt,
+        ]),
+      };
+      await storage.set(storageKey, JSON.stringify(payload));
+    } catch {
+      // Persistence is best-effort.
+    }
+  };
+
+  const schedulePersist = () => {
+    hasUnsavedChanges = true;
+
+    if (pendingWrite) {
+      return;
+    }
+
+    pendingWrite = Promise.resolve().then(async () => {
+      // Changes made while a write is in flight are saved by another pass.
+      while (hasUnsavedChanges) {
+        hasUnsavedChanges = false;
+        await persist();
+      }
+
+      pendingWrite = undefined;
+    });
+  };
+
+  const load = async () => {
+    let persisted: PersistedHeights | undefined;
+
+    try {
+      persisted = parsePersistedHeights(await storage.get(storageKey));
+    } catch {
+      return;
+    }
+
+    if (!persisted) {
+      return;
+    }
+
+    if (persisted.version !== version) {
+      schedulePersist();
+      return;
+    }
+
+    const now = Date.now();
+    const current = Array.from(entries);
+    entries.clear();
+
+    persisted.entries.forEach(([key, height, updatedAt]) => {
+      const entry = { height, updatedAt };
+      if (
+        typeof key === 'string' &&
+        Number.isFinite(height) &&
+        height > 0 &&
+        !isExpired(entry, now)
+      ) {
+        entries.set(key, entry);
+      }
+    });
+
+    current.forEach(([key, entry]) => {
+      entries.delete(key);
+      entries.set(key, entry);
+    });
+
+    evictOverflow();
+  };
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+
+      if (!entry) {
+        return undefined;
+      }
+
+      entries.delete(key);
+
+      if (isExpired(entry, Date.now())) {
+        schedulePersist();
+        return undefined;
+      }
+
+      entries.set(key, entry);
+      return entry.height;
+    },
+    set: (key, height) => {
+      entries.delete(key);
+      entries.set(key, { height, updatedAt: Date.now() });
+      evictOverflow();
+      schedulePersist();
+    },
+    delete: (key) => {
+      if (entries.delete(key)) {
+        schedulePersist();
+      }
+    },
+    clear: () => {
+      entries.clear();
+      schedulePersist();
+    },
+    get size() {
+      return entries.size;
+    },
+    hydrate: () => {
+      if (!hydration) {
+        hydration = load();
+      }
+
+      return hydration;
+    },
+    flush: () => pendingWrite ?? Promise.resolve(),
+  };
+};
@@ -0,0 +1,623 @@
+/**
+ * Allowlists applied by `sanitizeHtml`.
+ *
+ * Each field replaces the matching default list; spread
+ * `DEFAULT_SANITIZE_HTML_OPTIONS` to extend a default instead. Omitted or
+ * `undefined` fields keep the default.
+ */
+export interface SanitizeHtmlOptions {
+  /**
+   * Tags kept in the output (lowercase). Other tags are dropped but their
+   * content is kept, except for `<style>`, `<iframe>`, `<object>`, `<svg>`,
+   * `<math>`, `<template>`, `<noscript>` and similar elements, which are
+   * dropped along with their content. `<script>` is always dropped.
+   */
+  allowedTags?: string[];
+
+  /**
+   * Attributes kept per tag (lowercase); the `'*'` key applies to every tag and
+   * a trailing `*` matches a prefix (`'data-*'`). Inline event handlers
+   * (`on*`) are always dropped.
+   */
+  allowedAttributes?: Record<string, string[]>;
+
+  /**
+   * URL schemes allowed in `href`, `src`, `srcset` and other URL attributes.
+   * Relative URLs are always allowed; an attribute holding any other scheme
+   * (`javascript:`, `data:`, `vbscript:`…) is dropped.
+   */
+  allowedSchemes?: string[];
+}
+
+/**
+ * Allowlists used by `sanitizeHtml` when no options are given: the usual
+ * article markup (text, lists, tables, figures, media) with inline styles,
+ * and `http(s)`, `mailto` and `tel` links. `<style>` elements are not
+ * included, as they restyle the whole page.
+ */
+export const DEFAULT_SANITIZE_HTML_OPTIONS: Required<SanitizeHtmlOptions> = {
+  allowedTags: [
+    'a',
+    'abbr',
+    'address',
+    'article',
+    'aside',
+    'audio',
+    'b',
+    'bdi',
+    'bdo',
+    'blockquote',
+    'br',
+    'caption',
+    'cite',
+    'code',
+    'col',
+    'colgroup',
+    'dd',
+    'del',
+    'details',
+    'dfn',
+    'div',
+    'dl',
+    'dt',
+    'em',
+    'figcaption',
+    'figure',
+    'footer',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'header',
+    'hr',
+    'i',
+    'img',
+    'ins',
+    'kbd',
+    'li',
+    'main',
+    'mark',
+    'nav',
+    'ol',
+    'p',
+    'picture',
+    'pre',
+    'q',
+    'rp',
+    'rt',
+    'ruby',
+    's',
+    'samp',
+    'section',
+    'small',
+    'source',
+    'span',
+    'strong',
+    'sub',
+    'summary',
+    'sup',
+    'table',
+    'tbody',
+    'td',
+    'tfoot',
+    'th',
+    'thead',
+    'time',
+    'tr',
+    'track',
+    'u',
+    'ul',
+    'var',
+    'video',
+    'wbr',
+  ],
+  allowedAttributes: {
+    '*': [
+      'aria-*',
+      'class',
+      'data-*',
+      'dir',
+      'id',
+      'lang',
+      'role',
+      'style',
+      'title',
+    ],
+    'a': ['href', 'name', 'rel', 'target'],
+    'audio': ['controls', 'loop', 'muted', 'preload', 'src'],
+    'blockquote': ['cite'],
+    'col': ['span'],
+    'colgroup': ['span'],
+    'del': ['cite', 'datetime'],
+    'details': ['open'],
+    'img': ['alt', 'height', 'loading', 'sizes', 'src', 'srcset', 'width'],
+    'ins': ['cite', 'datetime'],
+    'li': ['value'],
+    'ol': ['reversed', 'start', 'type'],
+    'q': ['cite'],
+    'source': ['media', 'sizes', 'src', 'srcset', 'type'],
+    'td': ['colspan', 'headers', 'rowspan'],
+    'th': ['colspan', 'headers', 'rowspan', 'scope'],
+    'time': ['datetime'],
+    'track': ['default', 'kind', 'label', 'src', 'srclang'],
+    'video': [
+      'controls',
+      'height',
+      'loop',
+      'muted',
+      'playsinline',
+      'poster',
+      'preload',
+      'src',
+      'width',
+    ],
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+};
+
+/**
+ * Elements without content or end tag.
+ * @internal
+ */
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/**
+ * Elements whose content is raw text rather than markup.
+ * @internal
+ */
+const RAW_TEXT_TAGS = new Set([
+  'iframe',
+  'noembed',
+  'noframes',
+  'noscript',
+  'plaintext',
+  'script',
+  'style',
+  'textarea',
+  'title',
+  'xmp',
+]);
+
+/**
+ * Elements dropped along with their content when they are not allowed.
+ * @internal
+ */
+const DROPPED_CONTENT_TAGS = new Set([
+  ...RAW_TEXT_TAGS,
+  'applet',
+  'frameset',
+  'math',
+  'object',
+  'select',
+  'svg',
+  'template',
+]);
+
+/**
+ * Attributes holding a URL (`srcset` holds a list of them).
+ * @internal
+ */
+const URL_ATTRIBUTES = new Set([
+  'action',
+  'background',
+  'cite',
+  'formaction',
+  'href',
+  'poster',
+  'src',
+  'srcset',
+  'xlink:href',
+]);
+
+/**
+ * Legacy CSS constructs able to run script or load bindings.
+ * @internal
+ */
+const UNSAFE_STYLE_PATTERN =
+  /expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+
+/**
+ * Named entities that can hide a URL scheme; other names are left encoded,
+ * which never yields an allowed scheme.
+ * @internal
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  colon: ':',
+  gt: '>',
+  lt: '<',
+  newline: '\n',
+  quot: '"',
+  tab: '\t',
+};
+
+/**
+ * @internal
+ */
+const TAG_NAME_PATTERN = /[a-zA-Z][^\s/>]*/y;
+
+/**
+ * @internal
+ */
+const TAG_END_PATTERN = /[\s/]*>/y;
+
+/**
+ * One attribute: name, then an optional double-quoted, single-quoted or
+ * unquoted value.
+ * @internal
+ */
+const ATTRIBUTE_PATTERN =
+  /[\s/]*([^\s/>][^\s/>=]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*)))?/y;
+
+/**
+ * Parsed start or end tag.
+ * @internal
+ */
+interface Tag {
+  name: string;
+  attributes: [name: string, value: string | null][];
+  end: number;
+}
+
+/**
+ * Reads the tag name and attributes starting at `from` (just past `<` or
+ * `</`), or returns `null` when the tag is never closed.
+ * @internal
+ */
+const readTag = (html: string, from: number): Tag | null => {
+  TAG_NAME_PATTERN.lastIndex = from;
+  const name = (TAG_NAME_PATTERN.exec(html) as RegExpExecArray)[0];
+  const attributes: Tag['attributes'] = [];
+  let index = TAG_NAME_PATTERN.lastIndex;
+
+  while (index < html.length) {
+    TAG_END_PATTERN.lastIndex = index;
+    if (TAG_END_PATTERN.test(html)) {
+      return {
+        name: name.toLowerCase(),
+        attributes,
+        end: TAG_END_PATTERN.lastIndex,
+      };
+    }
+
+    ATTRIBUTE_PATTERN.lastIndex = index;
+    const match = ATTRIBUTE_PATTERN.exec(html);
+
+    // An unterminated quoted value runs to the end of the document.
+    if (!match || /^["']/.test(match[4] ?? '')) {
+      break;
+    }
+
+    attributes.push([
+      (match[1] as string).toLowerCase(),
+      match[2] ?? match[3] ?? match[4] ?? null,
+    ]);
+    index = ATTRIBUTE_PATTERN.lastIndex;
+  }
+
+  return null;
+};
+
+/**
+ * Bounds of an element's content and end tag.
+ * @internal
+ */
+interface ElementEnd {
+  /** Index of the end tag (`html.length` when there is none). */
+  contentEnd: number;
+  /** Index right after the end tag. */
+  end: number;
+}
+
+/**
+ * Finds the end tag closing the element `name` whose content starts at
+ * `from`, counting nested elements of the same name unless the content is
+ * raw text.
+ * @internal
+ */
+const findElementEnd = (
+  html: string,
+  name: string,
+  from: number
+): ElementEnd => {
+  const missing = { contentEnd: html.length, end: html.length };
+
+  if (name === 'plaintext') {
+    return missing;
+  }
+
+  const pattern = new RegExp(`<(/?)${name}(?=[\\s/>])`, 'gi');
+  const raw = RAW_TEXT_TAGS.has(name);
+  let depth = 1;
+  pattern.lastIndex = from;
+
+  for (let match = pattern.exec(html); match; match = pattern.exec(html)) {
+    if (match[1]) {
+      depth -= 1;
+    } else if (!raw) {
+      depth += 1;
+    }
+
+    if (depth === 0) {
+      const close = html.indexOf('>', pattern.lastIndex);
+      return {
+        contentEnd: match.index,
+        end: close === -1 ? html.length : close + 1,
+      };
+    }
+  }
+
+  return missing;
+};
+
+/**
+ * Decodes the character references able to disguise a URL scheme.
+ * @internal
+ */
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, body: string) => {
+    if (body[0] !== '#') {
+      return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+    }
+
+    const codePoint =
+      body[1] === 'x' || body[1] === 'X'
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+
+    return codePoint > 0x10ffff ? '�' : String.fromCodePoint(codePoint);
+  });
+
+/**
+ * Whether CSS is free of constructs able to run script, looking through
+ * comments and escapes such as `\6a avascript:`.
+ * @internal
+ */
+const isSafeCss = (css: string): boolean =>
+  !UNSAFE_STYLE_PATTERN.test(
+    css
+      .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '')
+      .replace(
+        /\\([0-9a-f]{1,6})\s?|\\([\s\S])/gi,
+        (_escape, hex: string | undefined, character: string | undefined) => {
+          if (hex === undefined) {
+            return character as string;
+          }
+
+          const codePoint = parseInt(hex, 16);
+
+          return codePoint > 0x10ffff ? '�' : String.fromCodePoint(codePoint);
+        }
+      )
+  );
+
+/**
+ * Whether a URL is relative or uses an allowed scheme. Control characters and
+ * whitespace are ignored, as browsers do when resolving URLs.
+ * @internal
+ */
+const isAllowedUrl = (value: string, schemes: readonly string[]): boolean => {
+  // eslint-disable-next-line no-control-regex
+  const url = decodeEntities(value).replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = /^([^/?#:]*):/.exec(url)?.[1];
+
+  return scheme === undefined || schemes.includes(scheme.toLowerCase());
+};
+
+/**
+ * Whether an attribute survives sanitization.
+ * @internal
+ */
+const isAllowedAttribute = (
+  tagName: string,
+  name: string,
+  value: string | null,
+  options: Required<SanitizeHtmlOptions>
+): boolean => {
+  const patterns = [
+    ...(options.allowedAttributes['*'] ?? []),
+    ...(options.allowedAttributes[tagName] ?? []),
+  ];
+
+  if (
+    name.startsWith('on') ||
+    !patterns.some((pattern) =>
+      pattern.endsWith('*')
+        ? name.startsWith(pattern.slice(0, -1))
+        : name === pattern
+    )
+  ) {
+    return false;
+  }
+
+  if (value === null) {
+    return true;
+  }
+
+  if (name === 'style') {
+    return isSafeCss(decodeEntities(value));
+  }
+
+  if (name === 'srcset') {
+    return value
+      .split(',')
+      .every((candidate) =>
+        isAllowedUrl(
+          candidate.trim().split(/\s+/)[0] as string,
+          options.allowedSchemes
+        )
+      );
+  }
+
+  return (
+    !URL_ATTRIBUTES.has(name) || isAllowedUrl(value, options.allowedSchemes)
+  );
+};
+
+/**
+ * Serialises the allowed attributes of a start tag.
+ * @internal
+ */
+const serializeAttributes = (
+  tag: Tag,
+  options: Required<SanitizeHtmlOptions>
+): string =>
+  tag.attributes
+    .filter(([name, value]) =>
+      isAllowedAttribute(tag.name, name, value, options)
+    )
+    .map(([name, value]) =>
+      value === null
+        ? ` ${name}`
+        : ` ${name}="${value.replace(/"/g, '&quot;')}"`
+    )
+    .join('');
+
+/**
+ * Cleans untrusted HTML with allowlists of tags, attributes and URL schemes.
+ *
+ * ## Overview
+ * A dependency-free tokenizer, so it also runs on Hermes where no DOM is
+ * available. The output only holds tags it re-serialised itself:
+ * - `<script>` elements, comments and processing instructions are dropped
+ * - inline event handlers (`on*`) and URLs with other schemes are dropped
+ * - style attributes and allowed `<style>` elements able to run script
+ *   (`expression()`, `javascript:` URLs, bindings) are dropped
+ * - disallowed tags are dropped, keeping their text unless they embed
+ *   foreign content (`<iframe>`, `<svg>`, `<object>`…)
+ * - stray `<` characters are escaped
+ *
+ * The doctype is kept, so documents stay in standards mode.
+ *
+ * @param html - Untrusted markup
+ * @param options - Allowlists replacing `DEFAULT_SANITIZE_HTML_OPTIONS`
+ * @returns The sanitized markup
+ *
+ * @example
+ * ```ts
+ * sanitizeHtml('<p onclick="steal()">Hi<script>steal()</script></p>');
+ * // '<p>Hi</p>'
+ *
+ * sanitizeHtml(html, {
+ *   ...DEFAULT_SANITIZE_HTML_OPTIONS,
+ *   allowedSchemes: [...DEFAULT_SANITIZE_HTML_OPTIONS.allowedSchemes, 'data'],
+ * });
+ * ```
+ */
+export const sanitizeHtml = (
+  html: string,
+  options: SanitizeHtmlOptions = {}
+): string => {
+  const resolvedOptions: Required<SanitizeHtmlOptions> = {
+    allowedTags:
+      options.allowedTags ?? DEFAULT_SANITIZE_HTML_OPTIONS.allowedTags,
+    allowedAttributes:
+      options.allowedAttributes ??
+      DEFAULT_SANITIZE_HTML_OPTIONS.allowedAttributes,
+    allowedSchemes:
+      options.allowedSchemes ?? DEFAULT_SANITIZE_HTML_OPTIONS.allowedSchemes,
+  };
+  const allowedTags = new Set(
+    resolvedOptions.allowedTags.filter((tagName) => tagName !== 'script')
+  );
+  let output = '';
+  let index = 0;
+
+  while (index < html.length) {
+    const open = html.indexOf('<', index);
+
+    if (open === -1) {
+      output += html.slice(index);
+      break;
+    }
+
+    output += html.slice(index, open);
+    const next = html[open + 1];
+
+    if (html.startsWith('<!--', open)) {
+      // `<!-->` and `<!--->` are complete (empty) comments.
+      const close = html.indexOf('-->', open + 2);
+      index = close === -1 ? html.length : close + 3;
+      continue;
+    }
+
+    if (next === '!' || next === '?') {
+      const close = html.indexOf('>', open);
+      index = close === -1 ? html.length : close + 1;
+
+      if (/^<!doctype\s+html[\s>]/i.test(html.slice(open, index))) {
+        output += '<!DOCTYPE html>';
+      }
+      continue;
+    }
+
+    const isEndTag = next === '/';
+    const nameStart = isEndTag ? open + 2 : open + 1;
+
+    if (!/[a-zA-Z]/.test(html[nameStart] ?? '')) {
+      output += '&lt;';
+      index = open + 1;
+      continue;
+    }
+
+    const tag = readTag(html, nameStart);
+
+    if (!tag) {
+      // An unterminated tag swallows the rest of the document.
+      break;
+    }
+
+    index = tag.end;
+
+    if (isEndTag) {
+      if (allowedTags.has(tag.name) && !VOID_TAGS.has(tag.name)) {
+        output += `</${tag.name}>`;
+      }
+      continue;
+    }
+
+    if (!allowedTags.has(tag.name)) {
+      if (DROPPED_CONTENT_TAGS.has(tag.name) && !VOID_TAGS.has(tag.name)) {
+        index = findElementEnd(html, tag.name, index).end;
+      }
+      continue;
+    }
+
+    const startTag = `<${tag.name}${serializeAttributes(tag, resolvedOptions)}>`;
+
+    if (!RAW_TEXT_TAGS.has(tag.name)) {
+      output += startTag;
+      continue;
+    }
+
+    const { contentEnd, end } = findElementEnd(html, tag.name, index);
+    const content = html.slice(index, contentEnd);
+
+    index = end;
+
+    if (tag.name !== 'style') {
+      output += `${startTag}${content.replace(/</g, '&lt;')}</${tag.name}>`;
+    } else if (isSafeCss(content)) {
+      output += `${startTag}${content}</${tag.name}>`;
+    }
+  }
+
+  return output;
+};